@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { World } from './World';
+import type { Entity } from './Entity';
+import { HealthComponent, TransformComponent } from './ComponentTypes';
+
+describe('CommandBuffer', () => {
+  it('defers structural changes until flushed', () => {
+    const world = new World();
+    const existing = world.createEntity();
+    world.addComponent(existing, new TransformComponent(0, 0, 10, 10));
+    let created: Entity | null = null;
+
+    world.commands.createEntity([new HealthComponent(5, 5)], entity => (created = entity));
+    world.commands.addComponent(existing, new HealthComponent(3, 3));
+    world.commands.removeComponent(existing, 'Transform');
+
+    expect(world.getEntityCount()).toBe(1);
+    expect(world.hasComponent(existing, 'Health')).toBe(false);
+    expect(world.commands.getPendingCount()).toBe(3);
+
+    world.commands.flush();
+
+    expect(world.getComponent(created!, 'Health')?.current).toBe(5);
+    expect(world.hasComponent(existing, 'Health')).toBe(true);
+    expect(world.hasComponent(existing, 'Transform')).toBe(false);
+    expect(world.commands.getPendingCount()).toBe(0);
+  });
+
+  it('hides entities queued for destruction from queries right away', () => {
+    const world = new World();
+    const entity = world.createEntity();
+    world.addComponent(entity, new HealthComponent(1, 1));
+
+    world.commands.destroyEntity(entity);
+
+    expect(world.queryEntities('Health')).toEqual([]);
+    expect(world.getEntity(entity.id)).toBe(entity);
+
+    world.commands.flush();
+    expect(world.getEntity(entity.id)).toBeUndefined();
+  });
+
+  it('applies commands recorded while flushing in the same pass', () => {
+    const world = new World();
+    const order: string[] = [];
+
+    world.commands.createEntity([], () => {
+      order.push('parent');
+      world.commands.createEntity([], () => order.push('child'));
+    });
+    world.commands.createEntity([], () => order.push('sibling'));
+    world.commands.flush();
+
+    expect(order).toEqual(['parent', 'sibling', 'child']);
+    expect(world.getEntityCount()).toBe(3);
+  });
+
+  it('applies queued commands at the end of a tick', () => {
+    const world = new World();
+    world.commands.createEntity([new HealthComponent(1, 1)]);
+
+    world.tick(world.getTickDuration());
+
+    expect(world.queryEntities('Health')).toHaveLength(1);
+  });
+
+  it('drops queued commands on clear', () => {
+    const world = new World();
+    world.commands.createEntity([]);
+
+    world.commands.clear();
+    world.commands.flush();
+
+    expect(world.getEntityCount()).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * CommandBuffer - Deferred structural changes for the World
+ * Systems record creates/destroys/component changes during update;
+ * the World applies them at sync points so queries never change mid-iteration
+ */
+
+import type { Entity, EntityId } from './Entity';
+import type { Component } from './Component';
+import type { ComponentTypeName } from './ComponentTypes';
+import type { World } from './World';
+
+type Command =
+  | { kind: 'create'; components: Component[]; onCreated?: (entity: Entity) => void }
+  | { kind: 'destroy'; entity: Entity | EntityId }
+  | { kind: 'add'; entity: Entity | EntityId; component: Component }
+  | { kind: 'remove'; entity: Entity | EntityId; componentType: ComponentTypeName };
+
+export class CommandBuffer {
+  private commands: Command[] = [];
+  private world: World;
+
+  constructor(world: World) {
+    this.world = world;
+  }
+
+  /**
+   * Queue creation of an entity with the given components
+   * @param onCreated - Called with the new entity once the buffer is flushed
+   */
+  createEntity(components: Component[], onCreated?: (entity: Entity) => void): void {
+    this.commands.push({ kind: 'create', components, onCreated });
+  }
+
+  /**
+   * Queue removal of an entity
+   * The entity is deactivated immediately so the remaining systems skip it
+   */
+  destroyEntity(entity: Entity | EntityId): void {
+    this.world.setActive(entity, false);
+    this.commands.push({ kind: 'destroy', entity });
+  }
+
+  /**
+   * Queue adding a component to an entity
+   */
+  addComponent(entity: Entity | EntityId, component: Component): void {
+    this.commands.push({ kind: 'add', entity, component });
+  }
+
+  /**
+   * Queue removing a component from an entity
+   */
+  removeComponent(entity: Entity | EntityId, componentType: ComponentTypeName): void {
+    this.commands.push({ kind: 'remove', entity, componentType });
+  }
+
+  /**
+   * Apply all queued commands in recording order
+   * Commands recorded while flushing are applied in the same pass
+   */
+  flush(): void {
+    for (let i = 0; i < this.commands.length; i++) {
+      const command = this.commands[i];
+
+      switch (command.kind) {
+        case 'create': {
+          const entity = this.world.createEntity();
+          for (const component of command.components) {
+            this.world.addComponent(entity, component);
+          }
+          command.onCreated?.(entity);
+          break;
+        }
+        case 'destroy':
+          this.world.removeEntity(command.entity);
+          break;
+        case 'add':
+          this.world.addComponent(command.entity, command.component);
+          break;
+        case 'remove':
+          this.world.removeComponent(command.entity, command.componentType);
+          break;
+      }
+    }
+
+    this.commands = [];
+  }
+
+  /**
+   * Drop all queued commands without applying them
+   */
+  clear(): void {
+    this.commands = [];
+  }
+
+  /**
+   * Get number of queued commands (for debugging)
+   */
+  getPendingCount(): number {
+    return this.commands.length;
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Component Codecs - Save/load of components in world snapshots
+ */
+
+import type { EntityId } from './Entity';
+import {
+  TransformComponent,
+  HealthComponent,
+  CombatComponent,
+  MovementComponent,
+  SpriteComponent,
+  AIComponent,
+  PlayerComponent,
+  EnemyComponent,
+  AnimationComponent,
+  StateMachineComponent,
+  type ComponentTypeMap,
+  type ComponentTypeName,
+  type BuiltinComponentName
+} from './ComponentTypes';
+import { FieldReader } from './FieldReader';
+import { BEHAVIORS, DIRECTIONS, ENEMY_TYPES } from './ComponentSchemas';
+
+export type SerializedComponent = Record<string, unknown>;
+
+export interface RestoreContext {
+  /**
+   * Map a saved entity ID to the ID of the restored entity
+   */
+  resolveId(savedId: EntityId | null): EntityId | null;
+}
+
+/**
+ * Converts a component to and from plain JSON data
+ * Saved data is untrusted: deserialize narrows it (see FieldReader) and throws on bad fields
+ */
+export interface ComponentCodec<K extends ComponentTypeName = ComponentTypeName> {
+  serialize(component: ComponentTypeMap[K]): SerializedComponent;
+  deserialize(data: unknown, context: RestoreContext): ComponentTypeMap[K];
+}
+
+/**
+ * Codecs of the built-in components (registered in ComponentRegistry)
+ */
+export const COMPONENT_CODECS: { [K in BuiltinComponentName]: ComponentCodec<K> } = {
+  Transform: {
+    serialize: c => ({ x: c.x, y: c.y, width: c.width, height: c.height }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Transform');
+      return new TransformComponent(d.number('x'), d.number('y'), d.number('width'), d.number('height'));
+    }
+  },
+  Health: {
+    serialize: c => ({ current: c.current, max: c.max }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Health');
+      return new HealthComponent(d.number('current'), d.number('max'));
+    }
+  },
+  Combat: {
+    serialize: c => ({
+      damage: c.damage,
+      defense: c.defense,
+      attackRange: c.attackRange,
+      attackCooldown: c.attackCooldown,
+      lastAttackTime: c.lastAttackTime,
+      isAttacking: c.isAttacking,
+      attackAnimationTime: c.attackAnimationTime
+    }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Combat');
+      return new CombatComponent(
+        d.number('damage'),
+        d.number('defense'),
+        d.number('attackRange'),
+        d.number('attackCooldown'),
+        d.optionalNumber('lastAttackTime'),
+        d.optionalBoolean('isAttacking'),
+        d.optionalNumber('attackAnimationTime')
+      );
+    }
+  },
+  Movement: {
+    serialize: c => ({
+      speed: c.speed,
+      direction: c.direction,
+      velocityX: c.velocityX,
+      velocityY: c.velocityY
+    }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Movement');
+      return new MovementComponent(
+        d.number('speed'),
+        d.optionalOneOf('direction', DIRECTIONS),
+        d.optionalNumber('velocityX'),
+        d.optionalNumber('velocityY')
+      );
+    }
+  },
+  Sprite: {
+    serialize: c => ({ color: c.color, renderLayer: c.renderLayer }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Sprite');
+      return new SpriteComponent(d.number('color'), d.optionalNumber('renderLayer'));
+    }
+  },
+  AI: {
+    serialize: c => ({
+      aggroRange: c.aggroRange,
+      attackRange: c.attackRange,
+      behavior: c.behavior,
+      targetEntityId: c.targetEntityId
+    }),
+    deserialize: (data, ctx) => {
+      const d = new FieldReader(data, 'AI');
+      return new AIComponent(
+        d.number('aggroRange'),
+        d.number('attackRange'),
+        d.optionalOneOf('behavior', BEHAVIORS),
+        ctx.resolveId(d.entityId('targetEntityId'))
+      );
+    }
+  },
+  Player: {
+    serialize: c => ({
+      level: c.level,
+      experience: c.experience,
+      experienceToNextLevel: c.experienceToNextLevel,
+      strength: c.strength,
+      upgradePoints: c.upgradePoints,
+      depth: c.depth
+    }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Player');
+      return new PlayerComponent(
+        d.number('level'),
+        d.number('experience'),
+        d.number('experienceToNextLevel'),
+        d.number('strength'),
+        d.optionalNumber('upgradePoints'),
+        d.optionalNumber('depth')
+      );
+    }
+  },
+  Enemy: {
+    serialize: c => ({ enemyType: c.enemyType, expReward: c.expReward }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Enemy');
+      return new EnemyComponent(d.oneOf('enemyType', ENEMY_TYPES), d.number('expReward'));
+    }
+  },
+  Animation: {
+    serialize: c => ({
+      currentState: c.currentState,
+      previousState: c.previousState,
+      stateTime: c.stateTime,
+      frameIndex: c.frameIndex
+    }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Animation');
+      return new AnimationComponent(
+        d.optionalString('currentState'),
+        d.optionalString('previousState'),
+        d.optionalNumber('stateTime'),
+        d.optionalNumber('frameIndex')
+      );
+    }
+  },
+  StateMachine: {
+    serialize: c => ({
+      currentState: c.currentState,
+      previousState: c.previousState,
+      transitions: Array.from(c.transitions.entries())
+    }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'StateMachine');
+      return new StateMachineComponent(
+        d.optionalString('currentState'),
+        d.optionalString('previousState'),
+        d.stringLists('transitions')
+      );
+    }
+  }
+};
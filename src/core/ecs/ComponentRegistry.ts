@@ -0,0 +1,87 @@
+/**
+ * ComponentRegistry - Runtime catalog of component types
+ * Built-in components are registered here; game modules and mods add their own
+ * without editing the core ECS files:
+ *
+ *   declare module '../core/ecs/ComponentTypes' {
+ *     interface ComponentTypeMap { Poison: PoisonComponent }
+ *   }
+ *   componentRegistry.register('Poison', { schema, codec });
+ *
+ * The declaration gives World.getComponent/queryEntities full type inference,
+ * the registration lets prefabs, snapshots and the inspector handle the type.
+ */
+
+import type { ComponentTypeName } from './ComponentTypes';
+import { COMPONENT_SCHEMAS, type ComponentSchema } from './ComponentSchemas';
+import { COMPONENT_CODECS, type ComponentCodec } from './ComponentCodecs';
+
+export interface ComponentDefinition<K extends ComponentTypeName = ComponentTypeName> {
+  /**
+   * Field descriptions - required to use the component in prefabs
+   */
+  schema?: ComponentSchema<K>;
+  /**
+   * Save/load support - components without a codec are left out of snapshots
+   */
+  codec?: ComponentCodec<K>;
+}
+
+export class ComponentRegistry {
+  private definitions: Map<string, ComponentDefinition> = new Map();
+
+  /**
+   * Register a component type
+   * Throws if the type name is already taken
+   */
+  register<K extends ComponentTypeName>(type: K, definition: ComponentDefinition<K> = {}): void {
+    if (this.definitions.has(type)) {
+      throw new Error(`Component type '${type}' is already registered`);
+    }
+    this.definitions.set(type, definition as ComponentDefinition);
+  }
+
+  /**
+   * Check if a component type is registered
+   */
+  has(type: string): type is ComponentTypeName {
+    return this.definitions.has(type);
+  }
+
+  /**
+   * Get names of all registered component types
+   */
+  getTypes(): ComponentTypeName[] {
+    return Array.from(this.definitions.keys()) as ComponentTypeName[];
+  }
+
+  /**
+   * Get the field schema of a component type, if it has one
+   */
+  getSchema<K extends ComponentTypeName>(type: K): ComponentSchema<K> | undefined;
+  getSchema(type: string): ComponentSchema | undefined;
+  getSchema(type: string): ComponentSchema | undefined {
+    return this.definitions.get(type)?.schema;
+  }
+
+  /**
+   * Get the snapshot codec of a component type, if it has one
+   */
+  getCodec<K extends ComponentTypeName>(type: K): ComponentCodec<K> | undefined;
+  getCodec(type: string): ComponentCodec | undefined;
+  getCodec(type: string): ComponentCodec | undefined {
+    return this.definitions.get(type)?.codec;
+  }
+}
+
+/**
+ * Shared registry used by prefabs, snapshots and the inspector
+ */
+export const componentRegistry = new ComponentRegistry();
+
+for (const type of Object.keys(COMPONENT_SCHEMAS) as (keyof typeof COMPONENT_SCHEMAS)[]) {
+  componentRegistry.register(type, {
+    schema: COMPONENT_SCHEMAS[type] as ComponentSchema,
+    codec: COMPONENT_CODECS[type] as ComponentCodec
+  });
+}
@@ -0,0 +1,232 @@
+/**
+ * Component Schemas - Field descriptions for building components from data
+ * Used to validate and instantiate data-defined components (e.g. prefabs)
+ */
+
+import {
+  TransformComponent,
+  HealthComponent,
+  CombatComponent,
+  MovementComponent,
+  SpriteComponent,
+  AIComponent,
+  PlayerComponent,
+  EnemyComponent,
+  AnimationComponent,
+  StateMachineComponent,
+  type ComponentTypeMap,
+  type ComponentTypeName,
+  type BuiltinComponentName
+} from './ComponentTypes';
+import { FieldReader } from './FieldReader';
+
+/**
+ * Field value kinds
+ * - color: number or hex string ('#8b5cf6' / '0x8b5cf6')
+ * - transitions: { state: [allowed next states] }
+ * - string[]: value must be one of the listed strings
+ */
+export type FieldType = 'number' | 'string' | 'boolean' | 'color' | 'transitions' | readonly string[];
+
+export interface FieldSpec {
+  type: FieldType;
+  required?: boolean;
+}
+
+export interface ComponentSchema<K extends ComponentTypeName = ComponentTypeName> {
+  fields: Record<string, FieldSpec>;
+  /**
+   * Build the component from normalized field values (see normalizeField)
+   * Missing optional fields are undefined so constructor defaults apply
+   * @throws FieldError if a value does not match its field
+   */
+  create(values: Record<string, unknown>): ComponentTypeMap[K];
+}
+
+export const DIRECTIONS = ['up', 'down', 'left', 'right'] as const;
+export const BEHAVIORS = ['chase', 'flee', 'patrol', 'idle'] as const;
+export const ENEMY_TYPES = ['slime', 'goblin', 'skeleton', 'demon'] as const;
+
+/**
+ * Schemas of the built-in components (registered in ComponentRegistry)
+ */
+export const COMPONENT_SCHEMAS: { [K in BuiltinComponentName]: ComponentSchema<K> } = {
+  Transform: {
+    fields: {
+      x: { type: 'number' },
+      y: { type: 'number' },
+      width: { type: 'number', required: true },
+      height: { type: 'number', required: true }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Transform');
+      return new TransformComponent(
+        v.optionalNumber('x') ?? 0,
+        v.optionalNumber('y') ?? 0,
+        v.number('width'),
+        v.number('height')
+      );
+    }
+  },
+  Health: {
+    fields: {
+      current: { type: 'number' },
+      max: { type: 'number', required: true }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Health');
+      const max = v.number('max');
+      return new HealthComponent(v.optionalNumber('current') ?? max, max);
+    }
+  },
+  Combat: {
+    fields: {
+      damage: { type: 'number', required: true },
+      defense: { type: 'number' },
+      attackRange: { type: 'number', required: true },
+      attackCooldown: { type: 'number', required: true }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Combat');
+      return new CombatComponent(
+        v.number('damage'),
+        v.optionalNumber('defense') ?? 0,
+        v.number('attackRange'),
+        v.number('attackCooldown')
+      );
+    }
+  },
+  Movement: {
+    fields: {
+      speed: { type: 'number', required: true },
+      direction: { type: DIRECTIONS }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Movement');
+      return new MovementComponent(v.number('speed'), v.optionalOneOf('direction', DIRECTIONS));
+    }
+  },
+  Sprite: {
+    fields: {
+      color: { type: 'color', required: true },
+      renderLayer: { type: 'number' }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Sprite');
+      return new SpriteComponent(v.number('color'), v.optionalNumber('renderLayer'));
+    }
+  },
+  AI: {
+    fields: {
+      aggroRange: { type: 'number', required: true },
+      attackRange: { type: 'number', required: true },
+      behavior: { type: BEHAVIORS }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'AI');
+      return new AIComponent(v.number('aggroRange'), v.number('attackRange'), v.optionalOneOf('behavior', BEHAVIORS));
+    }
+  },
+  Player: {
+    fields: {
+      level: { type: 'number', required: true },
+      experience: { type: 'number', required: true },
+      experienceToNextLevel: { type: 'number', required: true },
+      strength: { type: 'number', required: true },
+      upgradePoints: { type: 'number' },
+      depth: { type: 'number' }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Player');
+      return new PlayerComponent(
+        v.number('level'),
+        v.number('experience'),
+        v.number('experienceToNextLevel'),
+        v.number('strength'),
+        v.optionalNumber('upgradePoints'),
+        v.optionalNumber('depth')
+      );
+    }
+  },
+  Enemy: {
+    fields: {
+      enemyType: { type: ENEMY_TYPES, required: true },
+      expReward: { type: 'number', required: true }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Enemy');
+      return new EnemyComponent(v.oneOf('enemyType', ENEMY_TYPES), v.number('expReward'));
+    }
+  },
+  Animation: {
+    fields: {
+      currentState: { type: 'string' }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Animation');
+      const state = v.optionalString('currentState');
+      return new AnimationComponent(state, state);
+    }
+  },
+  StateMachine: {
+    fields: {
+      currentState: { type: 'string' },
+      transitions: { type: 'transitions' }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'StateMachine');
+      const state = v.optionalString('currentState');
+      return new StateMachineComponent(state, state, v.stringLists('transitions') ?? new Map());
+    }
+  }
+};
+
+/**
+ * Check a raw value against a field type
+ * @returns The normalized value, or an error message
+ */
+export function normalizeField(type: FieldType, value: unknown): { value: unknown } | { error: string } {
+  if (Array.isArray(type)) {
+    return typeof value === 'string' && type.includes(value)
+      ? { value }
+      : { error: `expected one of ${type.map(t => `'${t}'`).join(', ')}, got ${describe(value)}` };
+  }
+
+  switch (type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return typeof value === type && !(type === 'number' && !Number.isFinite(value))
+        ? { value }
+        : { error: `expected ${type}, got ${describe(value)}` };
+
+    case 'color': {
+      if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffff) {
+        return { value };
+      }
+      const match = typeof value === 'string' ? /^(?:#|0x)([0-9a-f]{6})$/i.exec(value) : null;
+      return match
+        ? { value: parseInt(match[1], 16) }
+        : { error: `expected color ('#rrggbb', '0xrrggbb' or number), got ${describe(value)}` };
+    }
+
+    case 'transitions': {
+      const valid =
+        typeof value === 'object' &&
+        value !== null &&
+        !Array.isArray(value) &&
+        Object.values(value).every(v => Array.isArray(v) && v.every(s => typeof s === 'string'));
+      return valid
+        ? { value }
+        : { error: `expected { state: [next states] }, got ${describe(value)}` };
+    }
+  }
+
+  return { error: `unsupported field type` };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value === 'string' ? `'${value}'` : typeof value;
+}
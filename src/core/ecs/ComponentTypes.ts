@@ -4,9 +4,11 @@
  */
 
 import { BaseComponent } from './Component';
+import type { EntityId } from './Entity';
 
 /**
  * Transform Component - Position and size
+ * prevX/prevY hold the position at the start of the current tick (for interpolation)
  */
 export class TransformComponent extends BaseComponent {
   readonly type = 'Transform' as const;
@@ -15,7 +17,9 @@ export class TransformComponent extends BaseComponent {
     public x: number,
     public y: number,
     public width: number,
-    public height: number
+    public height: number,
+    public prevX: number = x,
+    public prevY: number = y
   ) {
     super();
   }
@@ -46,7 +50,7 @@ export class CombatComponent extends BaseComponent {
     public defense: number,
     public attackRange: number,
     public attackCooldown: number,
-    public lastAttackTime: number = 0,
+    public lastAttackTime: number = -attackCooldown,
     public isAttacking: boolean = false,
     public attackAnimationTime: number = 0
   ) {
@@ -72,12 +76,12 @@ export class MovementComponent extends BaseComponent {
 
 /**
  * Sprite Component - Visual rendering data
+ * Renderer-agnostic: the render layer owns the actual graphics objects
  */
 export class SpriteComponent extends BaseComponent {
   readonly type = 'Sprite' as const;
 
   constructor(
-    public graphics: Phaser.GameObjects.Graphics,
     public color: number,
     public renderLayer: number = 0
   ) {
@@ -95,7 +99,7 @@ export class AIComponent extends BaseComponent {
     public aggroRange: number,
     public attackRange: number,
     public behavior: 'chase' | 'flee' | 'patrol' | 'idle' = 'chase',
-    public targetEntityId: number | null = null
+    public targetEntityId: EntityId | null = null
   ) {
     super();
   }
@@ -112,7 +116,11 @@ export class PlayerComponent extends BaseComponent {
     public experience: number,
     public experienceToNextLevel: number,
     public strength: number,
-    public upgradePoints: number = 0
+    public upgradePoints: number = 0,
+    /**
+     * Dungeon floor the player is on (1 = first floor)
+     */
+    public depth: number = 1
   ) {
     super();
   }
@@ -178,9 +186,9 @@ export class StateMachineComponent extends BaseComponent {
 }
 
 /**
- * Type guard helpers
+ * Built-in component types, by name
  */
-export type ComponentTypeMap = {
+export interface BuiltinComponentTypeMap {
   Transform: TransformComponent;
   Health: HealthComponent;
   Combat: CombatComponent;
@@ -191,6 +199,15 @@ export type ComponentTypeMap = {
   Enemy: EnemyComponent;
   Animation: AnimationComponent;
   StateMachine: StateMachineComponent;
-};
+}
+
+/**
+ * All component types known to the World, by name
+ * Open for extension: modules add their own components through declaration
+ * merging and register them at runtime (see ComponentRegistry)
+ */
+export interface ComponentTypeMap extends BuiltinComponentTypeMap {}
 
 export type ComponentTypeName = keyof ComponentTypeMap;
+
+export type BuiltinComponentName = keyof BuiltinComponentTypeMap;
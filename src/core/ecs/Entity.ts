@@ -3,22 +3,38 @@
  * An entity is just an ID that holds components
  */
 
-let nextEntityId = 0;
+import { EntityAllocator } from './EntityAllocator';
 
+/**
+ * Generational handle allocated by a World (see EntityAllocator)
+ * Use World.isAlive to detect handles to destroyed entities
+ */
 export type EntityId = number;
 
 export class Entity {
   public readonly id: EntityId;
+
+  /**
+   * Inactive entities are skipped by queries
+   * Change it through World.setActive so cached queries stay in sync
+   */
   public active: boolean = true;
 
-  constructor() {
-    this.id = nextEntityId++;
+  constructor(id: EntityId) {
+    this.id = id;
+  }
+
+  /**
+   * Slot index of this entity (recycled after destruction)
+   */
+  get index(): number {
+    return EntityAllocator.indexOf(this.id);
   }
 
   /**
-   * Reset the entity ID counter (useful for testing)
+   * Generation of this entity's slot
    */
-  static resetIdCounter() {
-    nextEntityId = 0;
+  get generation(): number {
+    return EntityAllocator.generationOf(this.id);
   }
 }
@@ -0,0 +1,87 @@
+/**
+ * EntityAllocator - Per-world generational entity IDs
+ * An ID packs a slot index and a generation; freed slots are recycled with
+ * a bumped generation so stale handles never match a newer entity
+ */
+
+import type { EntityId } from './Entity';
+
+export class EntityAllocator {
+  /**
+   * Number of distinct slot indices (IDs encode generation * INDEX_LIMIT + index)
+   */
+  static readonly INDEX_LIMIT = 1 << 20;
+
+  private generations: number[] = [];
+  private alive: boolean[] = [];
+  private freeIndices: number[] = [];
+
+  /**
+   * Allocate a new entity ID, reusing a freed slot if available
+   */
+  allocate(): EntityId {
+    let index = this.freeIndices.pop();
+
+    if (index === undefined) {
+      index = this.generations.length;
+      if (index >= EntityAllocator.INDEX_LIMIT) {
+        throw new Error(`Entity limit of ${EntityAllocator.INDEX_LIMIT} reached`);
+      }
+      this.generations.push(0);
+      this.alive.push(false);
+    }
+
+    this.alive[index] = true;
+    return EntityAllocator.makeId(index, this.generations[index]);
+  }
+
+  /**
+   * Free an entity ID; its slot is reused with the next generation
+   */
+  release(id: EntityId): void {
+    if (!this.isAlive(id)) return;
+
+    const index = EntityAllocator.indexOf(id);
+    this.alive[index] = false;
+    this.generations[index]++;
+    this.freeIndices.push(index);
+  }
+
+  /**
+   * Check if an ID refers to a live entity (false for stale handles)
+   */
+  isAlive(id: EntityId): boolean {
+    const index = EntityAllocator.indexOf(id);
+    return this.alive[index] === true && this.generations[index] === EntityAllocator.generationOf(id);
+  }
+
+  /**
+   * Forget all allocations
+   */
+  reset(): void {
+    this.generations = [];
+    this.alive = [];
+    this.freeIndices = [];
+  }
+
+  /**
+   * Static helper: Build an ID from slot index and generation
+   */
+  static makeId(index: number, generation: number): EntityId {
+    return generation * EntityAllocator.INDEX_LIMIT + index;
+  }
+
+  /**
+   * Static helper: Slot index of an ID
+   */
+  static indexOf(id: EntityId): number {
+    return id % EntityAllocator.INDEX_LIMIT;
+  }
+
+  /**
+   * Static helper: Generation of an ID
+   */
+  static generationOf(id: EntityId): number {
+    return Math.floor(id / EntityAllocator.INDEX_LIMIT);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * FieldReader - Typed access to untyped component data
+ * Used by component schemas (prefab fields) and codecs (saved snapshots).
+ * Every getter checks the value's type and throws a FieldError naming the
+ * component and field; optional getters return undefined for missing values
+ * so constructor defaults apply.
+ */
+
+import type { EntityId } from './Entity';
+
+/**
+ * Raised when component data is missing a field or has a value of the wrong type
+ */
+export class FieldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FieldError';
+  }
+}
+
+export class FieldReader {
+  private data: Record<string, unknown>;
+  private component: string;
+
+  /**
+   * @param component - Component type name used in error messages
+   * @throws FieldError if the data is not an object
+   */
+  constructor(data: unknown, component: string) {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new FieldError(`${component}: expected an object of fields`);
+    }
+    this.data = data as Record<string, unknown>;
+    this.component = component;
+  }
+
+  number(key: string): number {
+    return this.require(key, this.optionalNumber(key));
+  }
+
+  optionalNumber(key: string): number | undefined {
+    return this.check(key, value => typeof value === 'number' && Number.isFinite(value), 'a number') as
+      | number
+      | undefined;
+  }
+
+  string(key: string): string {
+    return this.require(key, this.optionalString(key));
+  }
+
+  optionalString(key: string): string | undefined {
+    return this.check(key, value => typeof value === 'string', 'a string') as string | undefined;
+  }
+
+  boolean(key: string): boolean {
+    return this.require(key, this.optionalBoolean(key));
+  }
+
+  optionalBoolean(key: string): boolean | undefined {
+    return this.check(key, value => typeof value === 'boolean', 'true or false') as boolean | undefined;
+  }
+
+  /**
+   * Read a string that must be one of a fixed set of options
+   */
+  oneOf<T extends string>(key: string, options: readonly T[]): T {
+    return this.require(key, this.optionalOneOf(key, options));
+  }
+
+  optionalOneOf<T extends string>(key: string, options: readonly T[]): T | undefined {
+    return this.check(
+      key,
+      value => typeof value === 'string' && (options as readonly string[]).includes(value),
+      `one of ${options.map(option => `'${option}'`).join(', ')}`
+    ) as T | undefined;
+  }
+
+  /**
+   * Read an entity reference (null when unset)
+   */
+  entityId(key: string): EntityId | null {
+    const value = this.check(key, value => value === null || Number.isInteger(value), 'an entity id or null');
+    return (value ?? null) as EntityId | null;
+  }
+
+  /**
+   * Read named lists of strings, given either as { name: [...] } or as [[name, [...]], ...]
+   */
+  stringLists(key: string): Map<string, string[]> | undefined {
+    const value = this.data[key];
+    if (value === undefined) return undefined;
+
+    const entries = Array.isArray(value)
+      ? value
+      : typeof value === 'object' && value !== null
+        ? Object.entries(value)
+        : null;
+    const valid =
+      entries !== null &&
+      entries.every(
+        (entry: unknown) =>
+          Array.isArray(entry) &&
+          typeof entry[0] === 'string' &&
+          Array.isArray(entry[1]) &&
+          entry[1].every((item: unknown) => typeof item === 'string')
+      );
+
+    if (!valid) {
+      throw new FieldError(`${this.component}.${key}: expected lists of strings by name`);
+    }
+    return new Map(entries as [string, string[]][]);
+  }
+
+  private check(key: string, isValid: (value: unknown) => boolean, expected: string): unknown {
+    const value = this.data[key];
+    if (value === undefined) return undefined;
+
+    if (!isValid(value)) {
+      throw new FieldError(`${this.component}.${key}: expected ${expected}`);
+    }
+    return value;
+  }
+
+  private require<T>(key: string, value: T | undefined): T {
+    if (value === undefined) {
+      throw new FieldError(`${this.component}.${key}: missing`);
+    }
+    return value;
+  }
+}
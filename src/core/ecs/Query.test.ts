@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { World } from './World';
+import { HealthComponent, MovementComponent, TransformComponent } from './ComponentTypes';
+
+describe('World queries', () => {
+  it('returns the same cached query for any order of component types', () => {
+    const world = new World();
+
+    expect(world.getQuery('Transform', 'Health')).toBe(world.getQuery('Health', 'Transform', 'Health'));
+  });
+
+  it('keeps queries up to date as components are added and removed', () => {
+    const world = new World();
+    const query = world.getQuery('Transform', 'Health');
+    const entity = world.createEntity();
+
+    world.addComponent(entity, new TransformComponent(0, 0, 10, 10));
+    expect(query.entities.has(entity)).toBe(false);
+
+    world.addComponent(entity, new HealthComponent(10, 10));
+    expect(query.entities.has(entity)).toBe(true);
+
+    world.removeComponent(entity, 'Health');
+    expect(query.entities.has(entity)).toBe(false);
+  });
+
+  it('populates a new query from the existing entities', () => {
+    const world = new World();
+    const moving = world.createEntity();
+    world.addComponent(moving, new TransformComponent(0, 0, 10, 10));
+    world.addComponent(moving, new MovementComponent(2));
+    const still = world.createEntity();
+    world.addComponent(still, new TransformComponent(0, 0, 10, 10));
+
+    expect(world.queryEntities('Transform', 'Movement')).toEqual([moving]);
+    expect(world.queryEntities('Transform')).toEqual([moving, still]);
+  });
+
+  it('leaves out removed and inactive entities', () => {
+    const world = new World();
+    const query = world.getQuery('Transform');
+    const removed = world.createEntity();
+    const inactive = world.createEntity();
+    world.addComponent(removed, new TransformComponent(0, 0, 10, 10));
+    world.addComponent(inactive, new TransformComponent(0, 0, 10, 10));
+
+    world.removeEntity(removed);
+    world.setActive(inactive, false);
+    expect(query.entities.size).toBe(0);
+
+    world.setActive(inactive, true);
+    expect(Array.from(query.entities)).toEqual([inactive]);
+  });
+});
+
+describe('Query enter/leave hooks', () => {
+  it('reports entities entering and leaving', () => {
+    const world = new World();
+    const query = world.getQuery('Transform', 'Health');
+    const log: string[] = [];
+    query.onEnter(entity => log.push(`enter ${entity.id}`));
+    query.onLeave(entity => log.push(`leave ${entity.id}`));
+
+    const entity = world.createEntity();
+    world.addComponent(entity, new TransformComponent(0, 0, 10, 10));
+    world.addComponent(entity, new HealthComponent(10, 10));
+    world.setActive(entity, false);
+    world.setActive(entity, true);
+    world.removeComponent(entity, 'Transform');
+
+    expect(log).toEqual([
+      `enter ${entity.id}`,
+      `leave ${entity.id}`,
+      `enter ${entity.id}`,
+      `leave ${entity.id}`
+    ]);
+  });
+
+  it('lets leave listeners read the components being removed', () => {
+    const world = new World();
+    const entity = world.createEntity();
+    world.addComponent(entity, new HealthComponent(7, 10));
+    const seen: (number | undefined)[] = [];
+    world.getQuery('Health').onLeave(left => seen.push(world.getComponent(left, 'Health')?.current));
+
+    world.removeEntity(entity);
+
+    expect(seen).toEqual([7]);
+  });
+
+  it('stops calling a listener once it is removed', () => {
+    const world = new World();
+    const query = world.getQuery('Health');
+    let entered = 0;
+    const unsubscribe = query.onEnter(() => entered++);
+
+    world.addComponent(world.createEntity(), new HealthComponent(1, 1));
+    unsubscribe();
+    world.addComponent(world.createEntity(), new HealthComponent(1, 1));
+
+    expect(entered).toBe(1);
+  });
+
+  it('emits lifecycle events for entities and components', () => {
+    const world = new World();
+    const log: string[] = [];
+    world.events.on('entity:*', (_data, event) => log.push(event.type));
+    world.events.on('component:*', ({ component }, event) => log.push(`${event.type} ${component.type}`));
+
+    const entity = world.createEntity();
+    world.addComponent(entity, new HealthComponent(1, 1));
+    world.removeEntity(entity);
+
+    expect(log).toEqual(['entity:created', 'component:added Health', 'component:removed Health', 'entity:destroyed']);
+  });
+});
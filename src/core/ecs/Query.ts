@@ -0,0 +1,111 @@
+/**
+ * Query - Cached set of entities matching a component signature
+ * Kept up to date incrementally by World on structural changes
+ */
+
+import type { Entity } from './Entity';
+import type { ComponentTypeName } from './ComponentTypes';
+
+export type QueryListener = (entity: Entity) => void;
+
+export class Query {
+  /**
+   * Canonical key for this query (sorted component names)
+   */
+  readonly key: string;
+
+  /**
+   * Component types an entity must have to match
+   */
+  readonly componentTypes: readonly ComponentTypeName[];
+
+  private members: Set<Entity> = new Set();
+  private enterListeners: Set<QueryListener> = new Set();
+  private leaveListeners: Set<QueryListener> = new Set();
+
+  constructor(componentTypes: readonly ComponentTypeName[]) {
+    this.componentTypes = Query.normalize(componentTypes);
+    this.key = this.componentTypes.join(',');
+  }
+
+  /**
+   * Live set of matching entities
+   */
+  get entities(): ReadonlySet<Entity> {
+    return this.members;
+  }
+
+  /**
+   * Subscribe to entities starting to match this query
+   * @returns Function that removes the listener
+   */
+  onEnter(listener: QueryListener): () => void {
+    this.enterListeners.add(listener);
+    return () => this.enterListeners.delete(listener);
+  }
+
+  /**
+   * Subscribe to entities no longer matching this query
+   * Called before the change is applied, so the entity's components are still readable
+   * @returns Function that removes the listener
+   */
+  onLeave(listener: QueryListener): () => void {
+    this.leaveListeners.add(listener);
+    return () => this.leaveListeners.delete(listener);
+  }
+
+  /**
+   * Add a matching entity (called by World)
+   */
+  add(entity: Entity): void {
+    if (this.members.has(entity)) return;
+
+    this.members.add(entity);
+    for (const listener of Array.from(this.enterListeners)) {
+      listener(entity);
+    }
+  }
+
+  /**
+   * Remove an entity that no longer matches (called by World)
+   */
+  remove(entity: Entity): void {
+    if (!this.members.has(entity)) return;
+
+    for (const listener of Array.from(this.leaveListeners)) {
+      listener(entity);
+    }
+    this.members.delete(entity);
+  }
+
+  /**
+   * Check if a component set satisfies this query
+   */
+  matches(components: ReadonlyMap<string, unknown>): boolean {
+    for (const type of this.componentTypes) {
+      if (!components.has(type)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check if the query depends on a component type
+   */
+  includes(componentType: string): boolean {
+    return (this.componentTypes as readonly string[]).includes(componentType);
+  }
+
+  /**
+   * Static helper: Sorted, de-duplicated component list
+   */
+  static normalize(componentTypes: readonly ComponentTypeName[]): ComponentTypeName[] {
+    return Array.from(new Set(componentTypes)).sort();
+  }
+
+  /**
+   * Static helper: Build the cache key for a component list
+   */
+  static keyOf(componentTypes: readonly ComponentTypeName[]): string {
+    return Query.normalize(componentTypes).join(',');
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { System } from './System';
+import { buildSchedule } from './Schedule';
+
+abstract class TestSystem extends System {
+  readonly requiredComponents = [] as const;
+  update(): void {}
+}
+
+class Input extends TestSystem {
+  readonly phase = 'input';
+}
+class Render extends TestSystem {
+  readonly phase = 'render';
+}
+class Physics extends TestSystem {}
+class Late extends TestSystem {
+  readonly priority = 10;
+}
+class Early extends TestSystem {
+  readonly priority = -10;
+}
+class AfterPhysics extends TestSystem {
+  readonly priority = -20;
+  readonly runsAfter = [Physics];
+}
+class BeforeEarly extends TestSystem {
+  readonly priority = 20;
+  readonly runsBefore = [Early];
+}
+
+const names = (systems: System[]) => systems.map(system => system.constructor.name);
+
+describe('buildSchedule', () => {
+  it('runs phases in order whatever the registration order', () => {
+    const schedule = buildSchedule([new Render(), new Physics(), new Input()]);
+
+    expect(names(schedule)).toEqual(['Input', 'Physics', 'Render']);
+  });
+
+  it('orders a phase by priority, then registration order', () => {
+    const schedule = buildSchedule([new Late(), new Physics(), new Early()]);
+
+    expect(names(schedule)).toEqual(['Early', 'Physics', 'Late']);
+  });
+
+  it('honours ordering constraints over priority', () => {
+    const schedule = buildSchedule([new AfterPhysics(), new Physics(), new Early(), new BeforeEarly()]);
+
+    expect(names(schedule)).toEqual(['Physics', 'AfterPhysics', 'BeforeEarly', 'Early']);
+  });
+
+  it('ignores constraints on systems that are not registered', () => {
+    expect(names(buildSchedule([new AfterPhysics()]))).toEqual(['AfterPhysics']);
+  });
+
+  it('reports ordering cycles', () => {
+    class A extends TestSystem {
+      readonly runsBefore = [B];
+    }
+    class B extends TestSystem {
+      readonly runsBefore = [C];
+    }
+    class C extends TestSystem {
+      readonly runsBefore = [A];
+    }
+
+    expect(() => buildSchedule([new A(), new B(), new C()])).toThrow(
+      "System ordering cycle in 'simulation' phase: B -> C -> A -> B"
+    );
+  });
+
+  it('rejects constraints that contradict the phase order', () => {
+    class BeforeInput extends Render {
+      readonly runsBefore = [Input];
+    }
+
+    expect(() => buildSchedule([new Input(), new BeforeInput()])).toThrow(/contradicts the phase order/);
+  });
+});
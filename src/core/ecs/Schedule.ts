@@ -0,0 +1,114 @@
+/**
+ * Schedule - Orders systems by phase, ordering constraints and priority
+ */
+
+import type { System, SystemClass } from './System';
+
+/**
+ * Frame phases, in execution order
+ */
+export const SYSTEM_PHASES = ['input', 'simulation', 'post-simulation', 'render'] as const;
+
+export type SystemPhase = (typeof SYSTEM_PHASES)[number];
+
+/**
+ * Build the execution order for a set of systems
+ * - Phases run in SYSTEM_PHASES order
+ * - Within a phase, runsBefore/runsAfter constraints are honored
+ * - Unconstrained systems run by ascending priority, then registration order
+ * Constraints on systems that are not registered are ignored.
+ * Throws if constraints form a cycle or contradict the phase order.
+ */
+export function buildSchedule(systems: readonly System[]): System[] {
+  const byClass: Map<SystemClass, System[]> = new Map();
+  for (const system of systems) {
+    const cls = system.constructor as SystemClass;
+    if (!byClass.has(cls)) byClass.set(cls, []);
+    byClass.get(cls)!.push(system);
+  }
+
+  // Edges: system -> systems that must run after it
+  const successors: Map<System, Set<System>> = new Map(systems.map(s => [s, new Set<System>()]));
+  const addEdge = (before: System, after: System): void => {
+    const beforePhase = SYSTEM_PHASES.indexOf(before.phase);
+    const afterPhase = SYSTEM_PHASES.indexOf(after.phase);
+    if (beforePhase > afterPhase) {
+      throw new Error(
+        `${nameOf(before)} (${before.phase}) must run before ${nameOf(after)} (${after.phase}), ` +
+          'which contradicts the phase order'
+      );
+    }
+    successors.get(before)!.add(after);
+  };
+
+  for (const system of systems) {
+    for (const cls of system.runsBefore) {
+      for (const other of byClass.get(cls) ?? []) addEdge(system, other);
+    }
+    for (const cls of system.runsAfter) {
+      for (const other of byClass.get(cls) ?? []) addEdge(other, system);
+    }
+  }
+
+  const schedule: System[] = [];
+
+  for (const phase of SYSTEM_PHASES) {
+    const phaseSystems = systems.filter(s => s.phase === phase);
+    const inDegree: Map<System, number> = new Map(phaseSystems.map(s => [s, 0]));
+
+    for (const system of phaseSystems) {
+      for (const next of successors.get(system)!) {
+        if (inDegree.has(next)) inDegree.set(next, inDegree.get(next)! + 1);
+      }
+    }
+
+    // Kahn's algorithm, picking the lowest priority (then earliest registered) ready system
+    const ready = phaseSystems.filter(s => inDegree.get(s) === 0);
+    while (ready.length > 0) {
+      ready.sort((a, b) => a.priority - b.priority || systems.indexOf(a) - systems.indexOf(b));
+      const system = ready.shift()!;
+      schedule.push(system);
+
+      for (const next of successors.get(system)!) {
+        if (!inDegree.has(next)) continue;
+        const remaining = inDegree.get(next)! - 1;
+        inDegree.set(next, remaining);
+        if (remaining === 0) ready.push(next);
+      }
+    }
+
+    const blocked = phaseSystems.filter(s => !schedule.includes(s));
+    if (blocked.length > 0) {
+      throw new Error(
+        `System ordering cycle in '${phase}' phase: ${findCycle(blocked, successors).map(nameOf).join(' -> ')}`
+      );
+    }
+  }
+
+  return schedule;
+}
+
+/**
+ * Find one cycle among systems that could not be scheduled (for error messages)
+ * Every blocked system has a blocked predecessor, so walking backwards must loop
+ */
+function findCycle(blocked: System[], successors: Map<System, Set<System>>): System[] {
+  const predecessorOf = (system: System): System =>
+    blocked.find(other => successors.get(other)!.has(system))!;
+
+  const path: System[] = [];
+  let current = blocked[0];
+
+  while (!path.includes(current)) {
+    path.push(current);
+    current = predecessorOf(current);
+  }
+
+  // path is in reverse execution order; flip it for a readable "A -> B -> A"
+  const cycle = path.slice(path.indexOf(current)).reverse();
+  return [...cycle, cycle[0]];
+}
+
+function nameOf(system: System): string {
+  return system.constructor.name;
+}
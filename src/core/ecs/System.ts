@@ -6,6 +6,10 @@
 import type { Entity } from './Entity';
 import type { World } from './World';
 import type { ComponentTypeName } from './ComponentTypes';
+import type { SystemPhase } from './Schedule';
+import type { EventPattern, EventHandler, SubscribeOptions } from '../events/EventBus';
+
+export type SystemClass = abstract new (...args: never[]) => System;
 
 export abstract class System {
   /**
@@ -14,17 +18,45 @@ export abstract class System {
    */
   abstract readonly requiredComponents: readonly ComponentTypeName[];
 
+  /**
+   * Frame phase this system runs in
+   */
+  readonly phase: SystemPhase = 'simulation';
+
+  /**
+   * Tie-breaker within a phase - lower values run first
+   */
+  readonly priority: number = 0;
+
+  /**
+   * Systems (by class) that must run after this one
+   */
+  readonly runsBefore: readonly SystemClass[] = [];
+
+  /**
+   * Systems (by class) that must run before this one
+   */
+  readonly runsAfter: readonly SystemClass[] = [];
+
   /**
    * Reference to the world (set by World when system is added)
    */
   protected world!: World;
 
+  private unsubscribers: (() => void)[] = [];
+
   /**
    * Initialize the system
    * Called once when system is added to world
    */
   init(world: World): void {
     this.world = world;
+
+    const query = world.getQuery(...this.requiredComponents);
+    this.unsubscribers.push(
+      query.onEnter(entity => this.onEntityAdded(entity)),
+      query.onLeave(entity => this.onEntityRemoved(entity))
+    );
   }
 
   /**
@@ -34,17 +66,50 @@ export abstract class System {
    */
   abstract update(delta: number): void;
 
+  /**
+   * Subscribe to an event on the world's bus for the lifetime of this system
+   * Call from init() after super.init(); removed automatically on destroy()
+   */
+  protected listen<P extends EventPattern>(
+    pattern: P,
+    handler: EventHandler<P>,
+    options?: SubscribeOptions
+  ): void {
+    this.unsubscribers.push(this.world.events.on(pattern, handler, options));
+  }
+
+  /**
+   * Called when an entity starts matching requiredComponents
+   */
+  protected onEntityAdded(_entity: Entity): void {
+    // Override if needed
+  }
+
+  /**
+   * Called when an entity stops matching requiredComponents
+   * (component removed, entity deactivated or destroyed)
+   * Components are still readable at this point
+   */
+  protected onEntityRemoved(_entity: Entity): void {
+    // Override if needed
+  }
+
   /**
    * Cleanup when system is removed
+   * Overrides must call super.destroy()
    */
   destroy(): void {
-    // Override if needed
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
   }
 
   /**
    * Helper: Get all entities that match this system's required components
+   * Returns the world's live cached set - no rescan per call
    */
-  protected getEntities(): Entity[] {
-    return this.world.queryEntities(...this.requiredComponents);
+  protected getEntities(): ReadonlySet<Entity> {
+    return this.world.getQuery(...this.requiredComponents).entities;
   }
 }
@@ -4,42 +4,141 @@
  */
 
 import { Entity, type EntityId } from './Entity';
+import { EntityAllocator } from './EntityAllocator';
 import type { Component } from './Component';
 import type { System } from './System';
 import type { ComponentTypeName, ComponentTypeMap } from './ComponentTypes';
+import { Query } from './Query';
+import { CommandBuffer } from './CommandBuffer';
+import { buildSchedule } from './Schedule';
+import { FixedTimestep } from '../utils/FixedTimestep';
+import { RandomStreams } from '../utils/Random';
+import { EventBus } from '../events/EventBus';
+
+/**
+ * Measured update cost of one system (in milliseconds)
+ */
+export interface SystemTiming {
+  last: number;
+  average: number;
+}
+
+/**
+ * Lists the entities that must be removed together with an entity
+ * (e.g. children attached to it)
+ */
+export type DestroyCascade = (entity: EntityId) => Iterable<EntityId>;
+
+// Weight of the newest sample in SystemTiming.average
+const TIMING_SMOOTHING = 0.1;
 
 export class World {
   private entities: Map<EntityId, Entity> = new Map();
+  private allocator: EntityAllocator = new EntityAllocator();
   private components: Map<EntityId, Map<string, Component>> = new Map();
   private systems: System[] = [];
+  private schedule: System[] | null = null;
+  private queries: Map<string, Query> = new Map();
+  private timestep: FixedTimestep = new FixedTimestep();
+  private time: number = 0;
+  private tickCount: number = 0;
+  private alpha: number = 0;
+  private paused: boolean = false;
+  private timings: Map<System, SystemTiming> = new Map();
+  private destroyCascades: Set<DestroyCascade> = new Set();
+
+  /**
+   * Deferred structural changes, applied at the end of each tick
+   * Systems should use this instead of creating/removing entities directly
+   */
+  readonly commands: CommandBuffer = new CommandBuffer(this);
+
+  /**
+   * Event bus scoped to this world (lifecycle and gameplay events)
+   */
+  readonly events: EventBus = new EventBus();
+
+  /**
+   * Seeded random streams ('map', 'loot', 'combat', 'spawn', ...)
+   * Gameplay code must draw from these instead of Math.random so a seed
+   * reproduces the whole run
+   */
+  readonly random: RandomStreams = new RandomStreams();
 
   /**
    * Create a new entity
    */
   createEntity(): Entity {
-    const entity = new Entity();
+    const entity = new Entity(this.allocator.allocate());
     this.entities.set(entity.id, entity);
     this.components.set(entity.id, new Map());
+    this.refreshQueries(entity);
+    this.events.emit('entity:created', { entity });
     return entity;
   }
 
   /**
    * Remove an entity and all its components
+   * Queries are left and 'component:removed' is emitted for each component
+   * before anything is deleted, then 'entity:destroyed' once it is gone.
+   * Dependents listed by destroy cascades are removed right after, in the same call.
    */
   removeEntity(entity: Entity | EntityId): void {
     const id = typeof entity === 'number' ? entity : entity.id;
+    const existing = this.entities.get(id);
+    const entityComponents = this.components.get(id);
+    if (!existing || !entityComponents) return;
+
+    const dependents: EntityId[] = [];
+    for (const cascade of this.destroyCascades) {
+      dependents.push(...cascade(id));
+    }
+
+    for (const query of this.queries.values()) {
+      query.remove(existing);
+    }
+
+    for (const component of entityComponents.values()) {
+      this.events.emit('component:removed', { entity: existing, component });
+    }
 
     this.components.delete(id);
     this.entities.delete(id);
+    this.allocator.release(id);
+    this.events.emit('entity:destroyed', { entity: existing });
+
+    for (const dependent of dependents) {
+      this.removeEntity(dependent);
+    }
+  }
+
+  /**
+   * Register a rule for entities that are removed together with another
+   * Applies to direct removals and to CommandBuffer.destroyEntity
+   * @returns Function that removes the rule
+   */
+  addDestroyCascade(cascade: DestroyCascade): () => void {
+    this.destroyCascades.add(cascade);
+    return () => this.destroyCascades.delete(cascade);
   }
 
   /**
    * Get entity by ID
+   * Returns undefined for stale IDs of destroyed entities
    */
   getEntity(id: EntityId): Entity | undefined {
     return this.entities.get(id);
   }
 
+  /**
+   * Check if a handle still refers to a live entity in this world
+   * False once the entity is destroyed, even after its slot is reused
+   */
+  isAlive(entity: Entity | EntityId): boolean {
+    const id = typeof entity === 'number' ? entity : entity.id;
+    return this.allocator.isAlive(id);
+  }
+
   /**
    * Add a component to an entity
    */
@@ -52,19 +151,39 @@ export class World {
       return;
     }
 
+    const owner = this.entities.get(id)!;
+    const replaced = entityComponents.get(component.type);
+    if (replaced === component) return;
+
+    // Replacing a component of the same type counts as remove + add
+    if (replaced) {
+      this.events.emit('component:removed', { entity: owner, component: replaced });
+    }
+
     entityComponents.set(component.type, component);
+    this.refreshQueries(id, component.type);
+    this.events.emit('component:added', { entity: owner, component });
   }
 
   /**
    * Remove a component from an entity
+   * Affected queries are left before the component is deleted
    */
   removeComponent(entity: Entity | EntityId, componentType: ComponentTypeName): void {
     const id = typeof entity === 'number' ? entity : entity.id;
     const entityComponents = this.components.get(id);
+    const component = entityComponents?.get(componentType);
+    if (!entityComponents || !component) return;
 
-    if (entityComponents) {
-      entityComponents.delete(componentType);
+    const owner = this.entities.get(id)!;
+    for (const query of this.queries.values()) {
+      if (query.includes(componentType)) {
+        query.remove(owner);
+      }
     }
+
+    entityComponents.delete(componentType);
+    this.events.emit('component:removed', { entity: owner, component });
   }
 
   /**
@@ -84,6 +203,14 @@ export class World {
     return entityComponents.get(componentType) as ComponentTypeMap[K] | undefined;
   }
 
+  /**
+   * Get all components attached to an entity
+   */
+  getComponents(entity: Entity | EntityId): Component[] {
+    const id = typeof entity === 'number' ? entity : entity.id;
+    return Array.from(this.components.get(id)?.values() ?? []);
+  }
+
   /**
    * Check if entity has a component
    */
@@ -104,17 +231,64 @@ export class World {
    * Query entities that have ALL specified components
    */
   queryEntities(...componentTypes: ComponentTypeName[]): Entity[] {
-    const result: Entity[] = [];
+    return Array.from(this.getQuery(...componentTypes).entities);
+  }
+
+  /**
+   * Get the cached query for a component signature
+   * The query is created (and populated) on first use, then kept up to date
+   * incrementally as components are added and removed
+   */
+  getQuery(...componentTypes: ComponentTypeName[]): Query {
+    const key = Query.keyOf(componentTypes);
+    let query = this.queries.get(key);
 
-    for (const entity of this.entities.values()) {
-      if (!entity.active) continue;
+    if (!query) {
+      query = new Query(componentTypes);
+      this.queries.set(key, query);
 
-      if (this.hasAllComponents(entity, ...componentTypes)) {
-        result.push(entity);
+      for (const entity of this.entities.values()) {
+        if (entity.active && query.matches(this.components.get(entity.id)!)) {
+          query.add(entity);
+        }
       }
     }
 
-    return result;
+    return query;
+  }
+
+  /**
+   * Activate or deactivate an entity
+   * Inactive entities stay in the world but are excluded from all queries
+   */
+  setActive(entity: Entity | EntityId, active: boolean): void {
+    const id = typeof entity === 'number' ? entity : entity.id;
+    const existing = this.entities.get(id);
+    if (!existing || existing.active === active) return;
+
+    existing.active = active;
+    this.refreshQueries(existing);
+  }
+
+  /**
+   * Re-evaluate query membership for an entity
+   * @param changedType - Only queries depending on this component type are checked
+   */
+  private refreshQueries(entity: Entity | EntityId, changedType?: string): void {
+    const id = typeof entity === 'number' ? entity : entity.id;
+    const existing = this.entities.get(id);
+    const entityComponents = this.components.get(id);
+    if (!existing || !entityComponents) return;
+
+    for (const query of this.queries.values()) {
+      if (changedType !== undefined && !query.includes(changedType)) continue;
+
+      if (existing.active && query.matches(entityComponents)) {
+        query.add(existing);
+      } else {
+        query.remove(existing);
+      }
+    }
   }
 
   /**
@@ -123,6 +297,7 @@ export class World {
   addSystem(system: System): void {
     system.init(this);
     this.systems.push(system);
+    this.schedule = null;
   }
 
   /**
@@ -133,16 +308,164 @@ export class World {
     if (index !== -1) {
       this.systems[index].destroy();
       this.systems.splice(index, 1);
+      this.timings.delete(system);
+      this.schedule = null;
     }
   }
 
   /**
-   * Update all systems
+   * Get systems in execution order
+   * The schedule is rebuilt lazily after systems are added or removed
+   * and throws if ordering constraints form a cycle
+   */
+  getSchedule(): readonly System[] {
+    if (!this.schedule) {
+      this.schedule = buildSchedule(this.systems);
+    }
+    return this.schedule;
+  }
+
+  /**
+   * Advance the world by one frame
+   * Runs as many fixed simulation ticks as the elapsed time allows,
+   * then the render phase once with the leftover interpolation factor.
+   * While paused, only the render phase runs.
    * @param delta - Time elapsed since last frame (in milliseconds)
    */
   update(delta: number): void {
-    for (const system of this.systems) {
-      system.update(delta);
+    if (!this.paused) {
+      this.alpha = this.timestep.advance(delta, stepMs => this.tick(stepMs));
+    }
+
+    for (const system of this.getSchedule()) {
+      if (system.phase === 'render') {
+        this.runSystem(system, delta);
+      }
+    }
+  }
+
+  /**
+   * Run one fixed simulation tick (every phase except render)
+   * Once all systems have run (sync point), queued events are delivered and
+   * queued commands applied; events raised by those commands follow right after
+   * @param stepMs - Tick duration (in milliseconds)
+   */
+  tick(stepMs: number): void {
+    for (const system of this.getSchedule()) {
+      if (system.phase !== 'render') {
+        this.runSystem(system, stepMs);
+      }
+    }
+
+    this.events.flush();
+    this.commands.flush();
+    this.events.flush();
+    this.time += stepMs;
+    this.tickCount++;
+  }
+
+  /**
+   * Run a system and record how long its update took
+   */
+  private runSystem(system: System, delta: number): void {
+    const start = performance.now();
+    system.update(delta);
+    const elapsed = performance.now() - start;
+
+    const timing = this.timings.get(system);
+    if (timing) {
+      timing.last = elapsed;
+      timing.average += (elapsed - timing.average) * TIMING_SMOOTHING;
+    } else {
+      this.timings.set(system, { last: elapsed, average: elapsed });
+    }
+  }
+
+  /**
+   * Get measured update cost per system (only systems that have run)
+   */
+  getSystemTimings(): ReadonlyMap<System, SystemTiming> {
+    return this.timings;
+  }
+
+  /**
+   * Pause or resume simulation ticks
+   * Rendering keeps running; frame time that passes while paused is discarded
+   */
+  setPaused(paused: boolean): void {
+    if (this.paused === paused) return;
+
+    this.paused = paused;
+    this.timestep.reset();
+    this.alpha = 0;
+  }
+
+  /**
+   * Check if simulation ticks are paused
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Run exactly one fixed tick (e.g. to advance a paused world step by step)
+   */
+  step(): void {
+    this.tick(this.timestep.getStepMs());
+  }
+
+  /**
+   * Get simulation time (in milliseconds)
+   * Only advances with ticks - use this for gameplay timers instead of Date.now()
+   */
+  getTime(): number {
+    return this.time;
+  }
+
+  /**
+   * Get number of ticks run so far (index of the tick in progress while ticking)
+   */
+  getTickCount(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Set simulation time (used when restoring a snapshot)
+   */
+  setTime(time: number): void {
+    this.time = time;
+    this.timestep.reset();
+  }
+
+  /**
+   * Get interpolation factor [0, 1) between the last two ticks (for rendering)
+   */
+  getAlpha(): number {
+    return this.alpha;
+  }
+
+  /**
+   * Get duration of one simulation tick (in milliseconds)
+   */
+  getTickDuration(): number {
+    return this.timestep.getStepMs();
+  }
+
+  /**
+   * Set the simulation tick rate
+   * @param ticksPerSecond - Fixed number of simulation ticks per second
+   */
+  setTickRate(ticksPerSecond: number): void {
+    this.timestep.setStepMs(1000 / ticksPerSecond);
+  }
+
+  /**
+   * Remove all entities but keep systems registered
+   */
+  clear(): void {
+    this.commands.clear();
+    for (const id of Array.from(this.entities.keys())) {
+      this.removeEntity(id);
     }
   }
 
@@ -155,10 +478,17 @@ export class World {
       system.destroy();
     }
     this.systems = [];
+    this.schedule = null;
+    this.timings.clear();
+    this.commands.clear();
+    this.destroyCascades.clear();
 
-    // Clear all entities and components
+    // Clear all entities, components and cached queries
     this.entities.clear();
     this.components.clear();
+    this.queries.clear();
+    this.allocator.reset();
+    this.events.clear();
   }
 
   /**
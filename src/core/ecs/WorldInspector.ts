@@ -0,0 +1,167 @@
+/**
+ * WorldInspector - Debug view of a World
+ * Lists entities with their live component fields, edits fields in place,
+ * and exposes pause/step and per-system timings for the inspector overlay
+ */
+
+import type { World } from './World';
+import type { EntityId } from './Entity';
+import type { Component } from './Component';
+import type { SystemPhase } from './Schedule';
+import { normalizeField } from './ComponentSchemas';
+import { componentRegistry } from './ComponentRegistry';
+
+export type FieldValue = number | string | boolean;
+
+export interface FieldView {
+  name: string;
+  value: FieldValue;
+  /**
+   * Allowed values, for fields restricted to a fixed set of strings
+   */
+  options?: readonly string[];
+}
+
+export interface ComponentView {
+  type: string;
+  fields: FieldView[];
+}
+
+export interface EntityView {
+  id: EntityId;
+  index: number;
+  generation: number;
+  active: boolean;
+  components: ComponentView[];
+}
+
+export interface SystemTimingView {
+  name: string;
+  phase: SystemPhase;
+  last: number;
+  average: number;
+}
+
+export class WorldInspector {
+  constructor(private world: World) {}
+
+  /**
+   * Snapshot every entity with its primitive component fields
+   * Non-primitive fields (maps, objects) are not listed
+   */
+  inspect(): EntityView[] {
+    return this.world.getAllEntities().map(entity => ({
+      id: entity.id,
+      index: entity.index,
+      generation: entity.generation,
+      active: entity.active,
+      components: this.world.getComponents(entity).map(component => ({
+        type: component.type,
+        fields: this.getFields(component)
+      }))
+    }));
+  }
+
+  /**
+   * Update cost of each system, in execution order
+   */
+  getSystemTimings(): SystemTimingView[] {
+    const timings = this.world.getSystemTimings();
+
+    return this.world.getSchedule().map(system => {
+      const timing = timings.get(system);
+      return {
+        name: system.constructor.name,
+        phase: system.phase,
+        last: timing?.last ?? 0,
+        average: timing?.average ?? 0
+      };
+    });
+  }
+
+  /**
+   * Overwrite a component field on a live entity
+   * The value must match the field's current type (and allowed values, if any)
+   * @throws Error if the entity, component or field does not exist or the value is invalid
+   */
+  setField(entityId: EntityId, componentType: string, field: string, value: FieldValue): void {
+    const component = this.world.getComponents(entityId).find(c => c.type === componentType);
+    if (!component) {
+      throw new Error(`Entity ${entityId} has no ${componentType} component`);
+    }
+
+    const target = component as unknown as Record<string, unknown>;
+    const current = target[field];
+    if (field === 'type' || !Object.hasOwn(target, field) || !isFieldValue(current)) {
+      throw new Error(`${componentType}.${field} is not an editable field`);
+    }
+
+    let next: unknown = value;
+    if (typeof current === 'number') {
+      next = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof next !== 'number' || !Number.isFinite(next)) {
+        throw new Error(`${componentType}.${field} expects a number`);
+      }
+    } else if (typeof current === 'boolean') {
+      next = value === 'true' ? true : value === 'false' ? false : value;
+      if (typeof next !== 'boolean') {
+        throw new Error(`${componentType}.${field} expects true or false`);
+      }
+    } else {
+      next = String(value);
+      const options = this.getOptions(componentType, field);
+      if (options) {
+        const result = normalizeField(options, next);
+        if ('error' in result) {
+          throw new Error(`${componentType}.${field}: ${result.error}`);
+        }
+      }
+    }
+
+    target[field] = next;
+  }
+
+  /**
+   * Pause or resume simulation ticks
+   */
+  setPaused(paused: boolean): void {
+    this.world.setPaused(paused);
+  }
+
+  /**
+   * Check if simulation ticks are paused
+   */
+  isPaused(): boolean {
+    return this.world.isPaused();
+  }
+
+  /**
+   * Advance a paused world by a single tick
+   */
+  step(): void {
+    this.world.step();
+  }
+
+  private getFields(component: Component): FieldView[] {
+    const fields: FieldView[] = [];
+
+    for (const [name, value] of Object.entries(component)) {
+      if (name === 'type' || !isFieldValue(value)) continue;
+
+      const options = this.getOptions(component.type, name);
+      fields.push(options ? { name, value, options } : { name, value });
+    }
+
+    return fields;
+  }
+
+  private getOptions(componentType: string, field: string): readonly string[] | undefined {
+    const schema = componentRegistry.getSchema(componentType);
+    const spec = schema && Object.hasOwn(schema.fields, field) ? schema.fields[field] : undefined;
+    return spec && Array.isArray(spec.type) ? spec.type : undefined;
+  }
+}
+
+function isFieldValue(value: unknown): value is FieldValue {
+  return typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean';
+}
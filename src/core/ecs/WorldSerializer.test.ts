@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { World } from './World';
+import { WorldSerializer, type WorldSnapshot } from './WorldSerializer';
+import { AIComponent, CombatComponent, PlayerComponent, TransformComponent } from './ComponentTypes';
+import { FieldError } from './FieldReader';
+
+function createWorld(seed: number | string = 1): World {
+  const world = new World();
+  world.random.setSeed(seed);
+  return world;
+}
+
+describe('WorldSerializer', () => {
+  it('round-trips entities, components and references', () => {
+    const world = createWorld(5);
+    const player = world.createEntity();
+    world.addComponent(player, new TransformComponent(10, 20, 30, 30));
+    world.addComponent(player, new PlayerComponent(3, 40, 200, 12, 1, 2));
+    const enemy = world.createEntity();
+    world.addComponent(enemy, new AIComponent(200, 40, 'chase', player.id));
+    world.setActive(enemy, false);
+    world.setTime(1234);
+    world.random.get('combat').next();
+
+    const serializer = new WorldSerializer();
+    const snapshot = serializer.serialize(world);
+    const copy = createWorld(9);
+    copy.createEntity();
+    const restored = serializer.restore(copy, snapshot);
+
+    const newPlayer = restored.get(player.id)!;
+    const newEnemy = restored.get(enemy.id)!;
+    expect(copy.getEntityCount()).toBe(2);
+    expect(copy.getComponent(newPlayer, 'Player')).toEqual(world.getComponent(player, 'Player'));
+    expect(copy.getComponent(newEnemy, 'AI')?.targetEntityId).toBe(newPlayer.id);
+    expect(copy.getComponent(newPlayer, 'Transform')).toEqual(world.getComponent(player, 'Transform'));
+    expect(newEnemy.active).toBe(false);
+    expect(copy.getTime()).toBe(1234);
+    expect(copy.random.getSeed()).toBe(5);
+    expect(copy.random.get('combat').next()).toBe(world.random.get('combat').next());
+  });
+
+  it('migrates version 1 snapshots to the current version', () => {
+    const v1 = {
+      version: 1,
+      entities: [
+        {
+          id: 0,
+          active: true,
+          components: {
+            Player: { level: 2, experience: 10, experienceToNextLevel: 100, strength: 10 },
+            Combat: {
+              damage: 5,
+              defense: 1,
+              attackRange: 40,
+              attackCooldown: 500,
+              lastAttackTime: 1760000000000,
+              isAttacking: false,
+              attackAnimationTime: 0
+            }
+          }
+        }
+      ]
+    } as unknown as WorldSnapshot;
+
+    const world = createWorld(7);
+    world.setTime(5000);
+    const restored = new WorldSerializer().restore(world, v1);
+    const entity = restored.get(0)!;
+
+    // v1 -> v2: wall-clock timers reset to the new simulation clock
+    expect(world.getTime()).toBe(0);
+    expect(world.getComponent(entity, 'Combat')?.lastAttackTime).toBe(-500);
+    // v2 -> v3: no saved streams, so the world keeps its own
+    expect(world.random.getSeed()).toBe(7);
+    // v3 -> v4: single-floor saves start on the first floor
+    expect(world.getComponent(entity, 'Player')?.depth).toBe(1);
+  });
+
+  it('runs registered migrations on older snapshots', () => {
+    const serializer = new WorldSerializer();
+    const world = new World();
+    world.addComponent(world.createEntity(), new CombatComponent(5, 1, 40, 500));
+    const snapshot = serializer.serialize(world);
+    const old = { ...snapshot, version: WorldSerializer.VERSION - 1 };
+
+    serializer.registerMigration(WorldSerializer.VERSION - 1, migrated => ({
+      ...migrated,
+      entities: migrated.entities.map(entity => ({
+        ...entity,
+        components: { ...entity.components, Combat: { ...entity.components.Combat, damage: 50 } }
+      }))
+    }));
+    const restored = serializer.restore(world, old);
+
+    expect(world.getComponent(restored.get(snapshot.entities[0].id)!, 'Combat')?.damage).toBe(50);
+  });
+
+  it('rejects snapshots it cannot migrate', () => {
+    const serializer = new WorldSerializer();
+    const world = new World();
+    const snapshot = serializer.serialize(world);
+
+    expect(() => serializer.restore(world, { ...snapshot, version: WorldSerializer.VERSION + 1 })).toThrow(
+      /Unsupported snapshot version/
+    );
+    expect(() => serializer.restore(world, { ...snapshot, version: 0 })).toThrow(/No migration registered/);
+  });
+
+  it('rejects component data of the wrong type', () => {
+    const world = new World();
+    const entity = world.createEntity();
+    world.addComponent(entity, new TransformComponent(0, 0, 10, 10));
+
+    const serializer = new WorldSerializer();
+    const snapshot = serializer.serialize(world);
+    snapshot.entities[0].components.Transform = { x: 'left', y: 0, width: 10, height: 10 };
+
+    expect(() => serializer.restore(new World(), snapshot)).toThrow(FieldError);
+    expect(() => serializer.restore(new World(), snapshot)).toThrow('Transform.x: expected a number');
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * WorldSerializer - Versioned JSON snapshots of a World
+ * Saves every entity and component, and restores them into a World.
+ * Components are (de)serialized by the codecs in ComponentRegistry.
+ */
+
+import type { World } from './World';
+import type { Entity, EntityId } from './Entity';
+import { componentRegistry } from './ComponentRegistry';
+import type { SerializedComponent, RestoreContext } from './ComponentCodecs';
+import type { RandomStreamsState } from '../utils/Random';
+
+export type { SerializedComponent } from './ComponentCodecs';
+
+export interface SerializedEntity {
+  id: EntityId;
+  active: boolean;
+  components: Partial<Record<string, SerializedComponent>>;
+}
+
+export interface WorldSnapshot {
+  version: number;
+  /**
+   * Simulation time (in milliseconds) - gameplay timers are relative to it
+   */
+  time: number;
+  /**
+   * Seed and position of the world's random streams (null in snapshots older than version 3)
+   */
+  random: RandomStreamsState | null;
+  entities: SerializedEntity[];
+}
+
+/**
+ * Upgrades a snapshot from one version to the next
+ */
+export type SnapshotMigration = (snapshot: WorldSnapshot) => WorldSnapshot;
+
+/**
+ * Migrations shipped with the game, keyed by the version they upgrade from
+ */
+const BUILTIN_MIGRATIONS: Record<number, SnapshotMigration> = {
+  // v1 had no simulation clock; timers were wall-clock based, so reset them
+  1: snapshot => ({
+    ...snapshot,
+    time: 0,
+    entities: snapshot.entities.map(entity => {
+      const combat = entity.components.Combat;
+      return combat
+        ? {
+            ...entity,
+            components: {
+              ...entity.components,
+              Combat: { ...combat, lastAttackTime: -(combat.attackCooldown as number) }
+            }
+          }
+        : entity;
+    })
+  }),
+  // v2 didn't save the random streams; such snapshots keep the streams of the world they are loaded into
+  2: snapshot => ({ ...snapshot, random: null }),
+  // v3 had a single floor; players were always on the first one
+  3: snapshot => ({
+    ...snapshot,
+    entities: snapshot.entities.map(entity => {
+      const player = entity.components.Player;
+      return player
+        ? { ...entity, components: { ...entity.components, Player: { ...player, depth: 1 } } }
+        : entity;
+    })
+  })
+};
+
+export class WorldSerializer {
+  /**
+   * Current snapshot schema version
+   * Bump this and register a migration whenever component fields change
+   */
+  static readonly VERSION = 4;
+
+  private migrations: Map<number, SnapshotMigration> = new Map(
+    Object.entries(BUILTIN_MIGRATIONS).map(([version, migrate]) => [Number(version), migrate])
+  );
+
+  /**
+   * Register a migration that upgrades snapshots from `fromVersion` to `fromVersion + 1`
+   */
+  registerMigration(fromVersion: number, migrate: SnapshotMigration): void {
+    this.migrations.set(fromVersion, migrate);
+  }
+
+  /**
+   * Capture all entities and components of a world
+   */
+  serialize(world: World): WorldSnapshot {
+    const entities: SerializedEntity[] = [];
+
+    for (const entity of world.getAllEntities()) {
+      const components: SerializedEntity['components'] = {};
+
+      // Components without a registered codec are not saved
+      for (const component of world.getComponents(entity)) {
+        const codec = componentRegistry.getCodec(component.type);
+        if (codec) {
+          components[component.type] = codec.serialize(component as never);
+        }
+      }
+
+      entities.push({ id: entity.id, active: entity.active, components });
+    }
+
+    return { version: WorldSerializer.VERSION, time: world.getTime(), random: world.random.getState(), entities };
+  }
+
+  /**
+   * Serialize a world to a JSON string
+   */
+  toJSON(world: World): string {
+    return JSON.stringify(this.serialize(world));
+  }
+
+  /**
+   * Replace the contents of a world with a snapshot
+   * Entities get fresh IDs; references between entities are remapped
+   * @returns Map from saved entity ID to the restored entity
+   */
+  restore(world: World, snapshot: WorldSnapshot): Map<EntityId, Entity> {
+    const migrated = this.migrate(snapshot);
+    const restored: Map<EntityId, Entity> = new Map();
+
+    world.clear();
+
+    // First pass: allocate entities so references can be resolved
+    for (const saved of migrated.entities) {
+      restored.set(saved.id, world.createEntity());
+    }
+
+    const context: RestoreContext = {
+      resolveId: savedId => (savedId === null ? null : restored.get(savedId)?.id ?? null)
+    };
+
+    // Second pass: rebuild components
+    for (const saved of migrated.entities) {
+      const entity = restored.get(saved.id)!;
+
+      for (const [type, data] of Object.entries(saved.components)) {
+        const codec = componentRegistry.getCodec(type);
+        if (!codec) {
+          console.warn(`Unknown component type '${type}' in snapshot, skipping`);
+          continue;
+        }
+        world.addComponent(entity, codec.deserialize(data, context));
+      }
+
+      world.setActive(entity, saved.active);
+    }
+
+    world.setTime(migrated.time);
+    // Streams continue where the saved run left them, so it rolls the same numbers as one never saved
+    if (migrated.random !== null) world.random.setState(migrated.random);
+
+    return restored;
+  }
+
+  /**
+   * Restore a world from a JSON string
+   */
+  fromJSON(world: World, json: string): Map<EntityId, Entity> {
+    return this.restore(world, JSON.parse(json) as WorldSnapshot);
+  }
+
+  /**
+   * Run registered migrations until the snapshot reaches the current version
+   */
+  private migrate(snapshot: WorldSnapshot): WorldSnapshot {
+    let current = snapshot;
+
+    if (typeof current.version !== 'number' || current.version > WorldSerializer.VERSION) {
+      throw new Error(
+        `Unsupported snapshot version ${current.version} (current is ${WorldSerializer.VERSION})`
+      );
+    }
+
+    while (current.version < WorldSerializer.VERSION) {
+      const migration = this.migrations.get(current.version);
+      if (!migration) {
+        throw new Error(`No migration registered from snapshot version ${current.version}`);
+      }
+      current = { ...migration(current), version: current.version + 1 };
+    }
+
+    return current;
+  }
+}
@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Entity } from '../ecs/Entity';
+import { EventBus, SubscriptionGroup } from './EventBus';
+
+const player = new Entity(1);
+const enemy = new Entity(2);
+const hit = { attacker: player, target: enemy, damage: 5 };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('EventBus', () => {
+  it('runs handlers by priority, then subscription order', () => {
+    const bus = new EventBus();
+    const order: string[] = [];
+    bus.on('damage:dealt', () => order.push('default'));
+    bus.on('damage:dealt', () => order.push('late'), { priority: 10 });
+    bus.on('damage:dealt', () => order.push('early'), { priority: -10 });
+    bus.on('damage:dealt', () => order.push('default 2'));
+
+    bus.emit('damage:dealt', hit);
+
+    expect(order).toEqual(['early', 'default', 'default 2', 'late']);
+  });
+
+  it('delivers to namespace and catch-all wildcards alongside exact subscriptions', () => {
+    const bus = new EventBus();
+    const seen: string[] = [];
+    bus.on('*', (_data, event) => seen.push(`* ${event.type}`));
+    bus.on('damage:*', (data, event) => seen.push(`damage:* ${event.type} ${data.damage}`));
+    bus.on('damage:dealt', () => seen.push('damage:dealt'));
+
+    bus.emit('damage:dealt', hit);
+    bus.emit('entity:created', { entity: player });
+
+    expect(seen).toEqual(['* damage:dealt', 'damage:* damage:dealt 5', 'damage:dealt', '* entity:created']);
+  });
+
+  it('skips the remaining handlers after stopPropagation', () => {
+    const bus = new EventBus();
+    const seen: string[] = [];
+    bus.on('damage:dealt', () => seen.push('after'), { priority: 1 });
+    bus.on('*', (_data, event) => {
+      seen.push('guard');
+      event.stopPropagation();
+    });
+
+    bus.emit('damage:dealt', hit);
+
+    expect(seen).toEqual(['guard']);
+  });
+
+  it('removes handlers through their subscription, off, once and groups', () => {
+    const bus = new EventBus();
+    const handler = vi.fn();
+    const group = new SubscriptionGroup();
+
+    const unsubscribe = bus.on('damage:dealt', handler);
+    bus.once('damage:dealt', handler);
+    group.add(bus.on('damage:*', handler));
+    bus.emit('damage:dealt', hit);
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    unsubscribe();
+    unsubscribe();
+    group.dispose();
+    bus.emit('damage:dealt', hit);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(bus.getListenerCount('damage:dealt')).toBe(0);
+  });
+
+  it('keeps dispatching when a handler throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bus = new EventBus();
+    const after = vi.fn();
+    bus.on('damage:dealt', () => {
+      throw new Error('broken handler');
+    });
+    bus.on('damage:dealt', after);
+
+    bus.emit('damage:dealt', hit);
+
+    expect(after).toHaveBeenCalledOnce();
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+});
+
+describe('EventBus queued dispatch', () => {
+  it('buffers events until flush', () => {
+    const bus = new EventBus({ queued: true });
+    const handler = vi.fn();
+    bus.on('damage:dealt', handler);
+
+    bus.emit('damage:dealt', hit);
+    expect(handler).not.toHaveBeenCalled();
+    expect(bus.getPendingCount()).toBe(1);
+
+    bus.flush();
+    expect(handler).toHaveBeenCalledWith(hit, expect.objectContaining({ type: 'damage:dealt' }));
+    expect(bus.getPendingCount()).toBe(0);
+  });
+
+  it('delivers events queued by handlers in the same flush, after the ones already queued', () => {
+    const bus = new EventBus({ queued: true });
+    const order: string[] = [];
+    bus.on('damage:dealt', () => {
+      order.push('damage');
+      bus.emit('enemy:killed', { enemy, killer: player, expReward: 10 });
+    });
+    bus.on('enemy:killed', () => order.push('killed'));
+    bus.on('entity:created', () => order.push('created'));
+
+    bus.emit('damage:dealt', hit);
+    bus.emit('entity:created', { entity: enemy });
+    bus.flush();
+
+    expect(order).toEqual(['damage', 'created', 'killed']);
+  });
+
+  it('ignores flush calls made while flushing', () => {
+    const bus = new EventBus({ queued: true });
+    const order: string[] = [];
+    bus.on('damage:dealt', () => {
+      bus.emit('entity:created', { entity: enemy });
+      bus.flush();
+      order.push('damage done');
+    });
+    bus.on('entity:created', () => order.push('created'));
+
+    bus.emit('damage:dealt', hit);
+    bus.flush();
+
+    expect(order).toEqual(['damage done', 'created']);
+  });
+
+  it('drops events beyond the maximum cascade depth', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const bus = new EventBus({ queued: true, maxCascadeDepth: 3 });
+    let handled = 0;
+    // Every damage event causes another: an endless cascade
+    bus.on('damage:dealt', data => {
+      handled++;
+      bus.emit('damage:dealt', data);
+    });
+
+    bus.emit('damage:dealt', hit);
+    bus.flush();
+
+    expect(handled).toBe(4);
+    expect(bus.getPendingCount()).toBe(0);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('exceeded depth 3'));
+  });
+
+  it('delivers pending events when switched to immediate mode', () => {
+    const bus = new EventBus({ queued: true });
+    const handler = vi.fn();
+    bus.on('damage:dealt', handler);
+    bus.emit('damage:dealt', hit);
+
+    bus.setQueued(false);
+    expect(handler).toHaveBeenCalledOnce();
+
+    bus.emit('damage:dealt', hit);
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,85 +1,313 @@
 /**
  * EventBus - Type-safe pub/sub event system
- * Enables decoupled communication between systems
+ * Enables decoupled communication between systems.
+ * Each World owns its own bus (World.events), so listeners never leak
+ * between worlds or scene restarts.
+ * In queued mode, events are buffered and delivered when flush() is called
+ * (World flushes at the end of each tick).
  */
 
 import type { GameEventType, GameEventData } from './GameEvents';
 
-type EventHandler<T extends GameEventType> = (data: GameEventData<T>) => void;
+/**
+ * Event namespaces ('damage' for 'damage:dealt')
+ */
+type EventNamespace = GameEventType extends `${infer N}:${string}` ? N : never;
+
+/**
+ * Subscription pattern: an event type, 'namespace:*' or '*' for every event
+ */
+export type EventPattern = GameEventType | `${EventNamespace}:*` | '*';
+
+/**
+ * Event types matched by a pattern
+ */
+export type MatchedEvents<P extends EventPattern> = P extends '*'
+  ? GameEventType
+  : P extends `${infer N}:*`
+    ? Extract<GameEventType, `${N}:${string}`>
+    : Extract<P, GameEventType>;
+
+/**
+ * Passed to every handler alongside the event data
+ */
+export interface EventContext<T extends GameEventType = GameEventType> {
+  readonly type: T;
+  /**
+   * Skip all handlers that would run after this one
+   */
+  stopPropagation(): void;
+}
+
+/**
+ * Handler for a pattern - wildcard handlers receive the union of matched event data
+ */
+export type EventHandler<P extends EventPattern> = (
+  data: GameEventData<MatchedEvents<P>>,
+  event: EventContext<MatchedEvents<P>>
+) => void;
+
+export interface SubscribeOptions {
+  /**
+   * Lower values run first (default 0); equal priorities run in subscription order
+   */
+  priority?: number;
+}
+
+/**
+ * Removes a subscription; calling it again does nothing
+ */
+export type Subscription = () => void;
+
+export interface EventBusOptions {
+  /**
+   * Buffer emitted events until flush() instead of dispatching immediately
+   */
+  queued?: boolean;
+  /**
+   * How deep events may trigger further events before they are dropped
+   * (an event emitted by a handler is one level deeper than the event it handles)
+   */
+  maxCascadeDepth?: number;
+}
+
+interface QueuedEvent {
+  type: GameEventType;
+  data: unknown;
+  depth: number;
+}
+
+interface Listener {
+  pattern: EventPattern;
+  handler: (data: unknown, event: EventContext) => void;
+  priority: number;
+  order: number;
+}
 
 export class EventBus {
-  private listeners: Map<string, Set<EventHandler<any>>> = new Map();
+  private listeners: Map<string, Listener[]> = new Map();
+  private nextOrder = 0;
+  private queued: boolean;
+  private maxCascadeDepth: number;
+  private queue: QueuedEvent[] = [];
+  private flushing = false;
 
   /**
-   * Subscribe to an event
+   * Cascade depth of the event being dispatched (null when idle)
    */
-  on<T extends GameEventType>(eventType: T, handler: EventHandler<T>): void {
-    if (!this.listeners.has(eventType)) {
-      this.listeners.set(eventType, new Set());
-    }
+  private currentDepth: number | null = null;
 
-    this.listeners.get(eventType)!.add(handler);
+  constructor(options: EventBusOptions = {}) {
+    this.queued = options.queued ?? false;
+    this.maxCascadeDepth = options.maxCascadeDepth ?? 8;
   }
 
   /**
-   * Unsubscribe from an event
+   * Switch between queued and immediate dispatch
+   * Pending events are delivered when switching to immediate mode
    */
-  off<T extends GameEventType>(eventType: T, handler: EventHandler<T>): void {
-    const handlers = this.listeners.get(eventType);
-    if (handlers) {
-      handlers.delete(handler);
-    }
+  setQueued(queued: boolean): void {
+    this.queued = queued;
+    if (!queued) this.flush();
   }
 
   /**
-   * Subscribe to an event for one invocation only
+   * Check if emitted events are buffered until flush()
+   */
+  isQueued(): boolean {
+    return this.queued;
+  }
+
+  /**
+   * Subscribe to an event, a namespace ('damage:*') or everything ('*')
+   * @returns Subscription that removes the handler
    */
-  once<T extends GameEventType>(eventType: T, handler: EventHandler<T>): void {
-    const onceHandler: EventHandler<T> = (data) => {
-      handler(data);
-      this.off(eventType, onceHandler);
+  on<P extends EventPattern>(pattern: P, handler: EventHandler<P>, options: SubscribeOptions = {}): Subscription {
+    const listener: Listener = {
+      pattern,
+      handler: handler as Listener['handler'],
+      priority: options.priority ?? 0,
+      order: this.nextOrder++
     };
 
-    this.on(eventType, onceHandler);
+    const list = this.listeners.get(pattern) ?? [];
+    list.push(listener);
+    this.listeners.set(pattern, list);
+
+    return () => {
+      const current = this.listeners.get(pattern);
+      const index = current?.indexOf(listener) ?? -1;
+      if (current && index !== -1) {
+        current.splice(index, 1);
+        if (current.length === 0) this.listeners.delete(pattern);
+      }
+    };
+  }
+
+  /**
+   * Unsubscribe a handler from a pattern
+   */
+  off<P extends EventPattern>(pattern: P, handler: EventHandler<P>): void {
+    const list = this.listeners.get(pattern);
+    if (!list) return;
+
+    const index = list.findIndex(listener => listener.handler === handler);
+    if (index !== -1) {
+      list.splice(index, 1);
+      if (list.length === 0) this.listeners.delete(pattern);
+    }
+  }
+
+  /**
+   * Subscribe to an event for one invocation only
+   */
+  once<P extends EventPattern>(pattern: P, handler: EventHandler<P>, options: SubscribeOptions = {}): Subscription {
+    const unsubscribe = this.on(
+      pattern,
+      ((data: unknown, event: EventContext) => {
+        unsubscribe();
+        (handler as Listener['handler'])(data, event);
+      }) as EventHandler<P>,
+      options
+    );
+    return unsubscribe;
   }
 
   /**
    * Emit an event
+   * Handlers of the exact type, its namespace and '*' run together by priority.
+   * In queued mode the event is buffered until the next flush().
    */
   emit<T extends GameEventType>(eventType: T, data: GameEventData<T>): void {
-    const handlers = this.listeners.get(eventType);
+    const depth = this.currentDepth === null ? 0 : this.currentDepth + 1;
 
-    if (handlers) {
-      // Create a copy to avoid issues if handlers modify the set
-      const handlersCopy = Array.from(handlers);
-      for (const handler of handlersCopy) {
-        try {
-          handler(data);
-        } catch (error) {
-          console.error(`Error in event handler for '${eventType}':`, error);
-        }
+    if (depth > this.maxCascadeDepth) {
+      console.warn(
+        `Dropped '${eventType}': event cascade exceeded depth ${this.maxCascadeDepth}`
+      );
+      return;
+    }
+
+    if (this.queued) {
+      this.queue.push({ type: eventType, data, depth });
+    } else {
+      this.dispatch(eventType, data, depth);
+    }
+  }
+
+  /**
+   * Deliver queued events in order, including events queued by their handlers
+   * Calls made while a flush is already running return immediately
+   */
+  flush(): void {
+    if (this.flushing) return;
+
+    this.flushing = true;
+    try {
+      let next: QueuedEvent | undefined;
+      while ((next = this.queue.shift())) {
+        this.dispatch(next.type, next.data, next.depth);
       }
+    } finally {
+      this.flushing = false;
     }
   }
 
   /**
-   * Remove all listeners for an event
+   * Get number of events waiting for flush()
+   */
+  getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Remove all listeners for a pattern, or all listeners and queued events
    */
-  clear(eventType?: GameEventType): void {
-    if (eventType) {
-      this.listeners.delete(eventType);
+  clear(pattern?: EventPattern): void {
+    if (pattern) {
+      this.listeners.delete(pattern);
     } else {
       this.listeners.clear();
+      this.queue = [];
     }
   }
 
   /**
-   * Get number of listeners for an event (for debugging)
+   * Get number of listeners that would receive an event (for debugging)
    */
   getListenerCount(eventType: GameEventType): number {
-    return this.listeners.get(eventType)?.size ?? 0;
+    return this.getListeners(eventType).length;
+  }
+
+  /**
+   * Run the handlers for one event
+   */
+  private dispatch(eventType: GameEventType, data: unknown, depth: number): void {
+    const listeners = this.getListeners(eventType);
+    if (listeners.length === 0) return;
+
+    let stopped = false;
+    const event: EventContext = {
+      type: eventType,
+      stopPropagation: () => {
+        stopped = true;
+      }
+    };
+
+    const previousDepth = this.currentDepth;
+    this.currentDepth = depth;
+
+    try {
+      for (const listener of listeners) {
+        try {
+          listener.handler(data, event);
+        } catch (error) {
+          console.error(`Error in event handler for '${eventType}':`, error);
+        }
+        if (stopped) break;
+      }
+    } finally {
+      this.currentDepth = previousDepth;
+    }
+  }
+
+  /**
+   * Snapshot of handlers for an event, in dispatch order
+   * (copied so handlers can subscribe/unsubscribe while it is dispatched)
+   */
+  private getListeners(eventType: GameEventType): Listener[] {
+    const namespace = eventType.slice(0, eventType.indexOf(':'));
+    const listeners = [
+      ...(this.listeners.get(eventType) ?? []),
+      ...(this.listeners.get(`${namespace}:*`) ?? []),
+      ...(this.listeners.get('*') ?? [])
+    ];
+
+    return listeners.sort((a, b) => a.priority - b.priority || a.order - b.order);
   }
 }
 
-// Global singleton instance
-export const eventBus = new EventBus();
+/**
+ * Collects subscriptions so they can be removed together
+ * (e.g. everything a scene subscribed to, on shutdown)
+ */
+export class SubscriptionGroup {
+  private subscriptions: Subscription[] = [];
+
+  /**
+   * Track subscriptions
+   */
+  add(...subscriptions: Subscription[]): void {
+    this.subscriptions.push(...subscriptions);
+  }
+
+  /**
+   * Remove all tracked subscriptions
+   */
+  dispose(): void {
+    for (const unsubscribe of this.subscriptions) {
+      unsubscribe();
+    }
+    this.subscriptions = [];
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import type { Entity } from '../ecs/Entity';
+import type { Component } from '../ecs/Component';
 
 export interface GameEventMap {
   // Entity lifecycle events
@@ -15,6 +16,17 @@ export interface GameEventMap {
     entity: Entity;
   };
 
+  // Component lifecycle events
+  'component:added': {
+    entity: Entity;
+    component: Component;
+  };
+
+  'component:removed': {
+    entity: Entity;
+    component: Component;
+  };
+
   // Combat events
   'damage:dealt': {
     attacker: Entity;
@@ -53,6 +65,28 @@ export interface GameEventMap {
     entity: Entity;
   };
 
+  'hazard:damaged': {
+    entity: Entity;
+    tile: string;
+    damage: number;
+  };
+
+  // Floor events
+  'stairs:reached': {
+    entity: Entity;
+  };
+
+  'floor:entered': {
+    depth: number;
+  };
+
+  // Map events
+  'trigger:entered': {
+    trigger: Entity;
+    entity: Entity;
+    name: string;
+  };
+
   // UI events
   'ui:update': {
     type: 'health' | 'exp' | 'level' | 'stats' | 'kills';
@@ -0,0 +1,65 @@
+/**
+ * FixedTimestep - Accumulator for frame-rate independent simulation
+ * Converts variable frame deltas into a whole number of fixed-size steps
+ */
+
+export class FixedTimestep {
+  private accumulator: number = 0;
+  private stepMs: number;
+  private maxStepsPerFrame: number;
+
+  /**
+   * @param stepMs - Duration of one simulation step (in milliseconds)
+   * @param maxStepsPerFrame - Cap on steps per frame; extra backlog is dropped
+   */
+  constructor(stepMs: number = 1000 / 60, maxStepsPerFrame: number = 5) {
+    this.stepMs = stepMs;
+    this.maxStepsPerFrame = maxStepsPerFrame;
+  }
+
+  /**
+   * Accumulate frame time and run as many fixed steps as fit
+   * @param frameDelta - Time elapsed since last frame (in milliseconds)
+   * @param step - Called once per fixed step with the step duration
+   * @returns Interpolation factor [0, 1) between the previous and current step
+   */
+  advance(frameDelta: number, step: (stepMs: number) => void): number {
+    this.accumulator += frameDelta;
+
+    let steps = 0;
+    while (this.accumulator >= this.stepMs && steps < this.maxStepsPerFrame) {
+      step(this.stepMs);
+      this.accumulator -= this.stepMs;
+      steps++;
+    }
+
+    // Too far behind (e.g. tab was hidden) - drop the backlog instead of spiraling
+    if (this.accumulator >= this.stepMs) {
+      this.accumulator %= this.stepMs;
+    }
+
+    return this.accumulator / this.stepMs;
+  }
+
+  /**
+   * Discard any accumulated time
+   */
+  reset(): void {
+    this.accumulator = 0;
+  }
+
+  /**
+   * Get step duration (in milliseconds)
+   */
+  getStepMs(): number {
+    return this.stepMs;
+  }
+
+  /**
+   * Change step duration (in milliseconds)
+   */
+  setStepMs(stepMs: number): void {
+    this.stepMs = stepMs;
+    this.accumulator = 0;
+  }
+}
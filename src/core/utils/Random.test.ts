@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Random, RandomStreams } from './Random';
+
+describe('Random', () => {
+  it('repeats the sequence for the same seed', () => {
+    const a = new Random('same');
+    const b = new Random('same');
+
+    expect(Array.from({ length: 10 }, () => a.next())).toEqual(Array.from({ length: 10 }, () => b.next()));
+  });
+
+  it('reads all-digit seeds as numbers so shown seeds can be shared', () => {
+    const shown = new Random('2026-10-18').getSeed();
+
+    expect(Random.normalizeSeed(String(shown))).toBe(shown);
+    expect(Random.normalizeSeed('1353041209')).toBe(1353041209);
+    // Beyond 32 bits, digits are hashed like any other text
+    expect(Random.normalizeSeed('99999999999')).not.toBe(99999999999 >>> 0);
+  });
+});
+
+describe('RandomStreams', () => {
+  it('derives fresh generators that start where the cached stream started', () => {
+    const streams = new RandomStreams(42);
+    const first = streams.get('map:1').next();
+    streams.get('map:1').next();
+
+    expect(streams.derive('map:1').next()).toBe(first);
+    expect(streams.derive('map:1').next()).toBe(first);
+  });
+
+  it('keeps streams independent of each other', () => {
+    const a = new RandomStreams(42);
+    const b = new RandomStreams(42);
+    a.get('combat').next();
+
+    expect(a.get('spawn').next()).toBe(b.get('spawn').next());
+  });
+
+  it('continues every stream from a saved state', () => {
+    const streams = new RandomStreams(42);
+    streams.get('combat').next();
+    streams.get('loot').next();
+    const state = streams.getState();
+    const expected = [streams.get('combat').next(), streams.get('loot').next()];
+
+    const restored = new RandomStreams(7);
+    restored.setState(state);
+
+    expect(restored.getSeed()).toBe(42);
+    expect([restored.get('combat').next(), restored.get('loot').next()]).toEqual(expected);
+  });
+});
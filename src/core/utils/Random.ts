@@ -1,21 +1,41 @@
 /**
  * Random - Seeded random number generator utilities
+ * xoshiro128** generator: fast, 128-bit state, passes standard statistical tests
  */
 
+/**
+ * Generator state, for saving and restoring a sequence exactly
+ */
+export type RandomState = [number, number, number, number];
+
 export class Random {
   private seed: number;
+  private state: RandomState = [0, 0, 0, 0];
 
-  constructor(seed: number = Date.now()) {
-    this.seed = seed;
+  /**
+   * @param seed - Number, or any string (e.g. a shared seed or '2026-10-18' for a daily run)
+   */
+  constructor(seed: number | string = Date.now()) {
+    this.seed = Random.normalizeSeed(seed);
+    this.reseed();
   }
 
   /**
    * Generate next random number [0, 1)
-   * Uses a simple LCG (Linear Congruential Generator)
    */
   next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    return result / 4294967296;
   }
 
   /**
@@ -79,18 +99,154 @@ export class Random {
   }
 
   /**
-   * Reset seed
+   * Reset seed (restarts the sequence)
    */
-  setSeed(seed: number): void {
-    this.seed = seed;
+  setSeed(seed: number | string): void {
+    this.seed = Random.normalizeSeed(seed);
+    this.reseed();
   }
 
   /**
-   * Get current seed
+   * Get the seed this sequence started from
    */
   getSeed(): number {
     return this.seed;
   }
+
+  /**
+   * Get the current position in the sequence
+   */
+  getState(): RandomState {
+    return [...this.state];
+  }
+
+  /**
+   * Continue from a position saved with getState
+   */
+  setState(state: RandomState): void {
+    this.state = [state[0] | 0, state[1] | 0, state[2] | 0, state[3] | 0];
+  }
+
+  /**
+   * Static helper: Convert a number or string seed to a 32-bit integer
+   * All-digit strings in the 32-bit range are read as numbers, so a seed shown
+   * by getSeed() can be passed back as text (e.g. ?seed=1353041209)
+   */
+  static normalizeSeed(seed: number | string): number {
+    if (typeof seed === 'number') {
+      return seed >>> 0;
+    }
+    if (/^\d{1,10}$/.test(seed) && Number(seed) <= 0xffffffff) {
+      return Number(seed);
+    }
+
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      hash = Math.imul(hash ^ seed.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  /**
+   * Expand the 32-bit seed into the full state (splitmix32)
+   */
+  private reseed(): void {
+    let x = this.seed;
+    const splitmix = (): number => {
+      x = (x + 0x9e3779b9) | 0;
+      let z = x;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      return (z ^ (z >>> 16)) | 0;
+    };
+
+    this.state = [splitmix(), splitmix(), splitmix(), splitmix()];
+  }
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+/**
+ * Seed and position of every stream drawn from, for saving a run mid-way
+ */
+export interface RandomStreamsState {
+  seed: number;
+  streams: Record<string, RandomState>;
+}
+
+/**
+ * Independent random sequences derived from one seed
+ * Each named stream ('map', 'loot', 'combat', 'spawn', ...) has its own
+ * generator, so drawing more numbers in one never shifts the others
+ */
+export class RandomStreams {
+  private seed: number;
+  private streams: Map<string, Random> = new Map();
+
+  constructor(seed: number | string = Date.now()) {
+    this.seed = Random.normalizeSeed(seed);
+  }
+
+  /**
+   * Get a named stream (created on first use)
+   */
+  get(name: string): Random {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = this.derive(name);
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  /**
+   * Create a fresh generator for a name, starting where get(name) started
+   * Not cached: use it for output that must be reproducible on demand
+   * (e.g. rebuilding a dungeon floor), however often it was made before
+   */
+  derive(name: string): Random {
+    return new Random(Random.normalizeSeed(`${this.seed}:${name}`));
+  }
+
+  /**
+   * Reseed; every stream restarts from the new seed
+   */
+  setSeed(seed: number | string): void {
+    this.seed = Random.normalizeSeed(seed);
+    this.streams.clear();
+  }
+
+  /**
+   * Get the seed all streams derive from
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Get the seed and the current position of each stream
+   */
+  getState(): RandomStreamsState {
+    const streams: Record<string, RandomState> = {};
+    for (const [name, stream] of this.streams) {
+      streams[name] = stream.getState();
+    }
+    return { seed: this.seed, streams };
+  }
+
+  /**
+   * Continue every stream from a state saved with getState
+   * (streams missing from it restart from the seed)
+   */
+  setState(state: RandomStreamsState): void {
+    this.setSeed(state.seed);
+    for (const [name, position] of Object.entries(state.streams)) {
+      this.get(name).setState(position);
+    }
+  }
 }
 
 // Global instance with random seed
@@ -1,55 +1,79 @@
-import Phaser from 'phaser';
-import type { GameScene } from '../rendering/scenes/GameScene';
+/**
+ * Dungeon - Tile map generation and collision queries
+ * The layout comes from a pluggable DungeonGenerator (rooms and corridors by default).
+ * Pure simulation data; drawing lives in rendering/utils/DungeonRenderer
+ */
+
+import type { Random } from '../core/utils/Random';
+import { BSPGenerator } from './generation/BSPGenerator';
+import { getRoomCenter, type DungeonGenerator, type Room } from './generation/DungeonGenerator';
+import { TILE_STAIRS, TILE_WALL, tileRegistry, type TileType } from './tiles/TileRegistry';
 
 export class Dungeon {
   private tiles: number[][] = [];
+  private reachable: boolean[][] = [];
+  private rooms: Room[] = [];
+  private spawnRoom!: Room;
+  private exitRoom!: Room;
+  private stairs!: { x: number; y: number };
   private width: number;
   private height: number;
   private tileSize: number;
-  private graphics: Phaser.GameObjects.Graphics;
+  private random: Random;
+  private generator: DungeonGenerator;
 
-  constructor(scene: GameScene, gameWidth: number, gameHeight: number, tileSize: number) {
+  /**
+   * @param random - Generator for the layout (the same seed gives the same dungeon)
+   * @param generator - Layout algorithm (BSP rooms and corridors by default)
+   */
+  constructor(
+    gameWidth: number,
+    gameHeight: number,
+    tileSize: number,
+    random: Random,
+    generator: DungeonGenerator = new BSPGenerator()
+  ) {
     this.tileSize = tileSize;
+    this.random = random;
+    this.generator = generator;
     this.width = Math.floor(gameWidth / tileSize);
     this.height = Math.floor(gameHeight / tileSize);
-    this.graphics = scene.add.graphics();
 
     this.generate();
-    this.draw();
   }
 
+  /**
+   * Build a new layout with the generator and place the stairs down
+   * @throws Error if the generator returns a grid of the wrong size
+   */
   generate() {
-    // Create a simple dungeon layout
-    for (let y = 0; y < this.height; y++) {
-      this.tiles[y] = [];
-      for (let x = 0; x < this.width; x++) {
-        // Walls on edges
-        if (x === 0 || x === this.width - 1 || y === 0 || y === this.height - 1) {
-          this.tiles[y][x] = 1;
-        }
-        // Random obstacles
-        else if (Math.random() < 0.08) {
-          this.tiles[y][x] = 1;
-        }
-        // Floor
-        else {
-          this.tiles[y][x] = 0;
-        }
-      }
-    }
+    const layout = this.generator.generate(this.width, this.height, this.random);
 
-    // Clear starting area around player spawn
-    const centerX = Math.floor(this.width / 2);
-    const centerY = Math.floor(this.height / 2);
-    for (let y = centerY - 2; y <= centerY + 2; y++) {
-      for (let x = centerX - 2; x <= centerX + 2; x++) {
-        if (y >= 0 && y < this.height && x >= 0 && x < this.width) {
-          this.tiles[y][x] = 0;
-        }
-      }
+    if (layout.tiles.length !== this.height || layout.tiles.some(row => row.length !== this.width)) {
+      throw new Error(`Dungeon generator must return ${this.width}x${this.height} tiles`);
     }
+
+    this.tiles = layout.tiles;
+    this.rooms = layout.rooms;
+    this.spawnRoom = layout.spawnRoom;
+    this.exitRoom = layout.exitRoom;
+
+    // Unless the generator placed them, stairs go in the middle of the exit room -
+    // or its corner when that is also the spawn room, so the player doesn't start on them
+    const center = getRoomCenter(this.exitRoom);
+    this.stairs =
+      layout.stairs ??
+      (this.exitRoom === this.spawnRoom
+        ? { x: this.exitRoom.x, y: this.exitRoom.y }
+        : { x: Math.floor(center.x), y: Math.floor(center.y) });
+    this.tiles[this.stairs.y][this.stairs.x] = TILE_STAIRS;
+
+    this.reachable = this.floodFill(getRoomCenter(this.spawnRoom));
   }
 
+  /**
+   * Check if an area overlaps anything impassable (walls or the map edge)
+   */
   isWall(x: number, y: number, width: number, height: number): boolean {
     // Check all corners of the entity
     const corners: [number, number][] = [
@@ -67,7 +91,7 @@ export class Dungeon {
         return true;
       }
 
-      if (this.tiles[tileY] && this.tiles[tileY][tileX] === 1) {
+      if (!tileRegistry.get(this.tiles[tileY][tileX]).passable) {
         return true;
       }
     }
@@ -75,32 +99,158 @@ export class Dungeon {
     return false;
   }
 
-  draw() {
-    this.graphics.clear();
-
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const tile = this.tiles[y][x];
-        const px = x * this.tileSize;
-        const py = y * this.tileSize;
-
-        if (tile === 1) {
-          // Wall
-          this.graphics.fillStyle(0x2d3748);
-          this.graphics.fillRect(px, py, this.tileSize, this.tileSize);
-          this.graphics.lineStyle(1, 0x1a202c);
-          this.graphics.strokeRect(px, py, this.tileSize, this.tileSize);
-        } else {
-          // Floor (checkerboard pattern)
-          const color = (x + y) % 2 === 0 ? 0x4a5568 : 0x3d4653;
-          this.graphics.fillStyle(color);
-          this.graphics.fillRect(px, py, this.tileSize, this.tileSize);
-        }
-      }
+  /**
+   * Check if an area lies on floor the player can walk to from the spawn room
+   * (use this rather than isWall for spawning - generators may leave sealed pockets)
+   */
+  isReachable(x: number, y: number, width: number, height: number): boolean {
+    const corners: [number, number][] = [
+      [x, y],
+      [x + width, y],
+      [x, y + height],
+      [x + width, y + height]
+    ];
+
+    return corners.every(
+      ([cx, cy]) => this.reachable[Math.floor(cy / this.tileSize)]?.[Math.floor(cx / this.tileSize)] === true
+    );
+  }
+
+  /**
+   * Check if an area is free of hazards (damaging or deadly tiles)
+   */
+  isSafe(x: number, y: number, width: number, height: number): boolean {
+    const corners: [number, number][] = [
+      [x, y],
+      [x + width, y],
+      [x, y + height],
+      [x + width, y + height]
+    ];
+
+    return corners.every(([cx, cy]) => {
+      const type = this.getTileTypeAt(cx, cy);
+      return type.damagePerSecond === 0 && !type.drowns;
+    });
+  }
+
+  /**
+   * Get tile value at tile coordinates (out of bounds counts as wall)
+   */
+  getTile(tileX: number, tileY: number): number {
+    return this.tiles[tileY]?.[tileX] ?? TILE_WALL;
+  }
+
+  /**
+   * Get the type of the tile at tile coordinates
+   */
+  getTileType(tileX: number, tileY: number): TileType {
+    return tileRegistry.get(this.getTile(tileX, tileY));
+  }
+
+  /**
+   * Check if a tile stops line of sight (out of bounds counts as wall)
+   */
+  blocksSight(tileX: number, tileY: number): boolean {
+    return this.getTileType(tileX, tileY).blocksSight;
+  }
+
+  /**
+   * Get the type of the tile under a point in pixels
+   */
+  getTileTypeAt(x: number, y: number): TileType {
+    return this.getTileType(Math.floor(x / this.tileSize), Math.floor(y / this.tileSize));
+  }
+
+  /**
+   * Get all rooms of the layout (in tiles)
+   */
+  getRooms(): readonly Room[] {
+    return this.rooms;
+  }
+
+  /**
+   * Get the room the player starts in
+   */
+  getSpawnRoom(): Room {
+    return this.spawnRoom;
+  }
+
+  /**
+   * Get the room holding the level's exit
+   */
+  getExitRoom(): Room {
+    return this.exitRoom;
+  }
+
+  /**
+   * Get the tile position of the stairs down
+   */
+  getStairs(): { x: number; y: number } {
+    return this.stairs;
+  }
+
+  /**
+   * Get the center of a room in pixels
+   */
+  getRoomCenter(room: Room): { x: number; y: number } {
+    const center = getRoomCenter(room);
+    return { x: center.x * this.tileSize, y: center.y * this.tileSize };
+  }
+
+  /**
+   * Mark tiles that can be walked to from a start tile without falling in
+   * (4-way, as entities can't squeeze through diagonals)
+   */
+  private floodFill(start: { x: number; y: number }): boolean[][] {
+    const reachable = Array.from({ length: this.height }, () => new Array<boolean>(this.width).fill(false));
+    const stack: [number, number][] = [[Math.floor(start.x), Math.floor(start.y)]];
+
+    while (stack.length > 0) {
+      const [x, y] = stack.pop()!;
+      if (reachable[y]?.[x] !== false) continue;
+
+      const type = this.getTileType(x, y);
+      if (!type.passable || type.drowns) continue;
+
+      reachable[y][x] = true;
+      stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
     }
+
+    return reachable;
+  }
+
+  /**
+   * Get width in tiles
+   */
+  getWidth(): number {
+    return this.width;
+  }
+
+  /**
+   * Get height in tiles
+   */
+  getHeight(): number {
+    return this.height;
+  }
+
+  /**
+   * Get width in pixels (the world's horizontal bounds)
+   */
+  getPixelWidth(): number {
+    return this.width * this.tileSize;
+  }
+
+  /**
+   * Get height in pixels (the world's vertical bounds)
+   */
+  getPixelHeight(): number {
+    return this.height * this.tileSize;
   }
 
-  destroy() {
-    this.graphics.destroy();
+  /**
+   * Get tile size in pixels
+   */
+  getTileSize(): number {
+    return this.tileSize;
   }
 }
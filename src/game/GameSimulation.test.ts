@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+import { GameSimulation } from './GameSimulation';
+
+/**
+ * Play a fixed input script (walks in a square, attacking now and then)
+ */
+function play(sim: GameSimulation, ticks: number): void {
+  const moves = [
+    [1, 0],
+    [0, 1],
+    [-1, 0],
+    [0, -1]
+  ];
+
+  for (let tick = 0; tick < ticks; tick++) {
+    const [dx, dy] = moves[Math.floor(tick / 30) % moves.length];
+    sim.setPlayerInput(dx, dy);
+    if (tick % 20 === 0) sim.attack();
+    sim.step();
+  }
+}
+
+/**
+ * Walk at the nearest enemy and attack it when close
+ */
+function fight(sim: GameSimulation, ticks: number): void {
+  for (let tick = 0; tick < ticks; tick++) {
+    const player = sim.world.getComponent(sim.getPlayer(), 'Transform');
+    const target = sim.world
+      .queryEntities('Enemy', 'Transform')
+      .map(enemy => sim.world.getComponent(enemy, 'Transform')!)
+      .sort((a, b) => distance(player, a) - distance(player, b))[0];
+
+    if (player && target) {
+      sim.setPlayerInput(Math.sign(target.x - player.x), Math.sign(target.y - player.y));
+      if (distance(player, target) < 60) sim.attack();
+    }
+    sim.step();
+  }
+}
+
+function distance(a: { x: number; y: number } | undefined, b: { x: number; y: number }): number {
+  return a ? Math.hypot(a.x - b.x, a.y - b.y) : Infinity;
+}
+
+/**
+ * Save a run and load it into a new session
+ */
+function reload(sim: GameSimulation): string {
+  const copy = new GameSimulation({ ...sim.getOptions(), seed: 'reload' });
+  copy.loadRun(sim.saveRun());
+  return copy.saveRun();
+}
+
+function getTiles(sim: GameSimulation): string {
+  const dungeon = sim.getDungeon();
+  const rows: string[] = [];
+  for (let y = 0; y < dungeon.getHeight(); y++) {
+    let row = '';
+    for (let x = 0; x < dungeon.getWidth(); x++) {
+      row += dungeon.getTileType(x, y).name[0];
+    }
+    rows.push(row);
+  }
+  return rows.join('\n');
+}
+
+describe('GameSimulation', () => {
+  it('produces the same snapshot from the same seed and input', () => {
+    const a = new GameSimulation({ seed: 'determinism' });
+    const b = new GameSimulation({ seed: 'determinism' });
+
+    play(a, 300);
+    play(b, 300);
+
+    expect(a.saveRun()).toBe(b.saveRun());
+  });
+
+  it('continues a loaded run exactly as if it had never been saved', () => {
+    // A small dungeon and a player who fights, so combat and spawn rolls happen after the save
+    const options = { width: 480, height: 400, seed: 'resume' };
+    const uninterrupted = new GameSimulation(options);
+    const saved = new GameSimulation(options);
+    fight(uninterrupted, 220);
+    fight(saved, 100);
+
+    const resumed = new GameSimulation({ ...options, seed: 'other' });
+    resumed.loadRun(saved.saveRun());
+    fight(resumed, 120);
+
+    // Loading allocates fresh entity IDs, so compare both runs as loaded into equal sessions
+    expect(reload(resumed)).toBe(reload(uninterrupted));
+  });
+
+  it('builds different dungeons from different seeds', () => {
+    const a = new GameSimulation({ seed: 1 });
+    const b = new GameSimulation({ seed: 2 });
+
+    expect(getTiles(a)).not.toBe(getTiles(b));
+    expect(getTiles(a)).toBe(getTiles(new GameSimulation({ seed: 1 })));
+  });
+
+  it('rebuilds the saved floor when a run is loaded after descending', () => {
+    const sim = new GameSimulation({ seed: 7 });
+    const firstFloor = getTiles(sim);
+    const save = sim.saveRun();
+
+    sim.descend();
+    const secondFloor = getTiles(sim);
+    sim.loadRun(save);
+
+    expect(sim.getDepth()).toBe(1);
+    expect(getTiles(sim)).toBe(firstFloor);
+
+    sim.descend();
+    expect(getTiles(sim)).toBe(secondFloor);
+  });
+
+  it('restores the saved seed and floor into a session with another seed', () => {
+    const saved = new GameSimulation({ seed: 7 });
+    saved.descend();
+    const save = saved.saveRun();
+
+    const sim = new GameSimulation({ seed: 9 });
+    sim.loadRun(save);
+
+    expect(sim.getSeed()).toBe(7);
+    expect(sim.getDepth()).toBe(2);
+    expect(getTiles(sim)).toBe(getTiles(saved));
+  });
+
+  it('descends at the start of the tick after the player reaches the stairs', () => {
+    const sim = new GameSimulation({ seed: 11 });
+    const tileSize = sim.getDungeon().getTileSize();
+    const stairs = sim.getDungeon().getStairs();
+    const transform = sim.world.getComponent(sim.getPlayer(), 'Transform')!;
+    transform.x = stairs.x * tileSize + (tileSize - transform.width) / 2;
+    transform.y = stairs.y * tileSize + (tileSize - transform.height) / 2;
+
+    const seen: string[] = [];
+    sim.world.events.on('stairs:reached', () => seen.push(`stairs at ${sim.world.getTickCount()} on ${sim.getDepth()}`));
+    sim.world.events.on('floor:entered', ({ depth }) => seen.push(`floor ${depth} at ${sim.world.getTickCount()}`));
+
+    sim.step();
+    sim.step();
+
+    // Events of the tick the stairs were reached in are delivered while the old floor still exists
+    expect(seen).toEqual(['stairs at 0 on 1', 'floor 2 at 1']);
+    expect(sim.getDepth()).toBe(2);
+  });
+
+  it('runs headless and moves the player on input', () => {
+    const sim = new GameSimulation();
+    const transform = sim.world.getComponent(sim.getPlayer(), 'Transform')!;
+    const startX = transform.x;
+
+    sim.setPlayerInput(1, 0);
+    for (let frame = 0; frame < 10; frame++) {
+      sim.update(16);
+    }
+
+    expect(transform.x).toBeGreaterThan(startX);
+    expect(sim.world.getQuery('Enemy').entities.size).toBeGreaterThanOrEqual(3);
+    sim.destroy();
+  });
+
+  it('loads a saved run into another session', () => {
+    const sim = new GameSimulation();
+    sim.setPlayerInput(0, 1);
+    for (let frame = 0; frame < 10; frame++) {
+      sim.update(16);
+    }
+    const saved = sim.world.getComponent(sim.getPlayer(), 'Transform')!;
+
+    const copy = new GameSimulation();
+    copy.loadRun(sim.saveRun());
+    const loaded = copy.world.getComponent(copy.getPlayer(), 'Transform')!;
+
+    expect([loaded.x, loaded.y]).toEqual([saved.x, saved.y]);
+    expect(copy.world.getQuery('Enemy').entities.size).toBe(sim.world.getQuery('Enemy').entities.size);
+    sim.destroy();
+    copy.destroy();
+  });
+
+  it('moves attached entities with their parent and destroys them together', () => {
+    const sim = new GameSimulation();
+    const hierarchy = sim.getHierarchy();
+    const parent = sim.factory.instantiate('goblin', 100, 100);
+    const child = sim.factory.instantiate('slime', 0, 0);
+    const grandchild = sim.factory.instantiate('slime', 0, 0);
+    hierarchy.attach(child, parent, 0, 20);
+    hierarchy.attach(grandchild, child, 10, 0);
+
+    const origin = sim.world.getComponent(parent, 'Transform')!;
+    origin.x += 50;
+    sim.step();
+    const placed = sim.world.getComponent(grandchild, 'Transform')!;
+    expect([placed.x, placed.y]).toEqual([origin.x + 10, origin.y + 20]);
+
+    sim.world.commands.destroyEntity(parent);
+    sim.step();
+
+    expect(sim.world.isAlive(child)).toBe(false);
+    expect(sim.world.isAlive(grandchild)).toBe(false);
+    sim.destroy();
+  });
+
+  it('keeps entities attached to the player when descending', () => {
+    const sim = new GameSimulation({ seed: 3 });
+    const hierarchy = sim.getHierarchy();
+    const pet = sim.factory.instantiate('slime', 0, 0);
+    hierarchy.attach(pet, sim.getPlayer(), 0, 20);
+
+    sim.descend();
+
+    expect(sim.world.isAlive(pet)).toBe(true);
+    expect(hierarchy.getChildren(sim.getPlayer())).toEqual([pet]);
+    expect(sim.world.getQuery('Enemy').entities.size).toBeGreaterThanOrEqual(3);
+    sim.destroy();
+  });
+});
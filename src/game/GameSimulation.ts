@@ -0,0 +1,452 @@
+/**
+ * GameSimulation - The game without rendering
+ * Owns the World, gameplay systems, dungeon floors and spawning rules.
+ * Each floor's layout is generated from a fresh random sequence derived from
+ * the run seed and depth ('map:<depth>'), so the seed alone reproduces every
+ * floor regardless of how the run was played; saves store the seed and rebuild
+ * the floor from it when loaded.
+ * The first floor can instead be a hand-authored map (see TiledMapLoader).
+ * Has no Phaser dependency, so it runs headless under Node (tests, batch runs);
+ * GameScene wraps it with input, rendering and UI.
+ */
+
+import { World } from '../core/ecs/World';
+import { WorldSerializer } from '../core/ecs/WorldSerializer';
+import type { Entity, EntityId } from '../core/ecs/Entity';
+import type { System } from '../core/ecs/System';
+import type { GameEventData } from '../core/events/GameEvents';
+import { Dungeon } from './Dungeon';
+import type { DungeonGenerator } from './generation/DungeonGenerator';
+import { DEFAULT_GENERATOR, createGenerator, type DungeonGeneratorName } from './generation/GeneratorRegistry';
+import { PresetGenerator } from './generation/PresetGenerator';
+import type { TiledMap } from './maps/TiledMapLoader';
+import { EntityFactory } from './factory/EntityFactory';
+import { MovementSystem } from './systems/MovementSystem';
+import { CombatSystem } from './systems/CombatSystem';
+import { HealthSystem } from './systems/HealthSystem';
+import { AISystem } from './systems/AISystem';
+import { AnimationSystem } from './systems/AnimationSystem';
+import { InterpolationSystem } from './systems/InterpolationSystem';
+import { HierarchySystem } from './systems/HierarchySystem';
+import { PlayerInputSystem } from './systems/PlayerInputSystem';
+import { SpawnSystem } from './systems/SpawnSystem';
+import { StairsSystem } from './systems/StairsSystem';
+import { DescentSystem } from './systems/DescentSystem';
+import { HazardSystem } from './systems/HazardSystem';
+import { VisionSystem } from './systems/VisionSystem';
+import { TriggerSystem } from './systems/TriggerSystem';
+import type { FieldOfView } from './vision/FieldOfView';
+
+export interface SimulationOptions {
+  width?: number;
+  height?: number;
+  tileSize?: number;
+  /**
+   * Run seed - the same seed reproduces the same dungeon and encounters
+   * (random when omitted)
+   */
+  seed?: number | string;
+  /**
+   * Dungeon layout: a built-in generator name ('rooms' by default, 'caves')
+   * or a custom generator (runs with a custom generator can't be replayed)
+   */
+  generator?: DungeonGeneratorName | DungeonGenerator;
+  /**
+   * Hand-authored first floor (from parseTiledMap); deeper floors use the generator
+   * Its size replaces width/height on that floor
+   */
+  map?: TiledMap | null;
+}
+
+// Enemies kept alive on generated floors
+const MIN_ENEMIES = 3;
+
+export class GameSimulation {
+  readonly world: World;
+  readonly factory: EntityFactory;
+
+  private serializer = new WorldSerializer();
+  private movementSystem: MovementSystem;
+  private combatSystem: CombatSystem;
+  private aiSystem: AISystem;
+  private hierarchySystem: HierarchySystem;
+  private inputSystem: PlayerInputSystem;
+  private spawnSystem: SpawnSystem;
+  private stairsSystem: StairsSystem;
+  private descentSystem: DescentSystem;
+  private hazardSystem: HazardSystem;
+  private visionSystem: VisionSystem;
+
+  private generator: DungeonGenerator;
+  private dungeon!: Dungeon;
+  private depth = 1;
+  private playerEntity: Entity;
+  private monstersKilled = 0;
+  private options: Required<SimulationOptions>;
+  private loadListeners: Set<() => void> = new Set();
+
+  constructor(options: SimulationOptions = {}) {
+    this.options = {
+      width: options.width ?? 800,
+      height: options.height ?? 600,
+      tileSize: options.tileSize ?? 40,
+      seed: options.seed ?? Date.now(),
+      generator: options.generator ?? DEFAULT_GENERATOR,
+      map: options.map ?? null
+    };
+
+    this.world = new World();
+    this.world.random.setSeed(this.options.seed);
+    this.factory = new EntityFactory(this.world);
+
+    // Deliver gameplay events at the end of each tick rather than mid-system
+    this.world.events.setQueued(true);
+
+    // Gameplay systems (execution order comes from each system's phase and constraints)
+    this.movementSystem = new MovementSystem();
+    this.combatSystem = new CombatSystem();
+    this.aiSystem = new AISystem();
+    this.hierarchySystem = new HierarchySystem();
+    this.inputSystem = new PlayerInputSystem(this.combatSystem);
+    this.spawnSystem = new SpawnSystem(this.factory, MIN_ENEMIES);
+    this.stairsSystem = new StairsSystem();
+    this.descentSystem = new DescentSystem(() => this.descend());
+    this.hazardSystem = new HazardSystem();
+    this.visionSystem = new VisionSystem();
+
+    this.world.addSystem(this.descentSystem);
+    this.world.addSystem(this.inputSystem);
+    this.world.addSystem(new InterpolationSystem());
+    this.world.addSystem(this.movementSystem);
+    this.world.addSystem(this.combatSystem);
+    this.world.addSystem(this.hazardSystem);
+    this.world.addSystem(new HealthSystem());
+    this.world.addSystem(new AnimationSystem());
+    this.world.addSystem(this.aiSystem);
+    this.world.addSystem(this.hierarchySystem);
+    this.world.addSystem(this.spawnSystem);
+    this.world.addSystem(this.stairsSystem);
+    this.world.addSystem(this.visionSystem);
+    this.world.addSystem(new TriggerSystem());
+
+    // Create the first floor
+    const generator = this.options.generator;
+    this.generator = typeof generator === 'string' ? createGenerator(generator) : generator;
+    this.buildFloor(1);
+
+    // Create player entity at the map's spawn point or in the spawn room
+    const map = this.options.map;
+    const spawn = map
+      ? { x: map.spawn.x * this.options.tileSize, y: map.spawn.y * this.options.tileSize }
+      : this.dungeon.getRoomCenter(this.dungeon.getSpawnRoom());
+    this.playerEntity = this.factory.createPlayer(spawn.x, spawn.y);
+    this.aiSystem.setPlayerEntity(this.playerEntity.id);
+    this.spawnSystem.setPlayerEntity(this.playerEntity.id);
+
+    if (map) {
+      this.placeMapObjects(map);
+    } else {
+      this.spawnInitialEnemies();
+    }
+
+    this.world.events.on('enemy:killed', this.handleEnemyKilled);
+  }
+
+  /**
+   * Add an extra system (e.g. rendering) to the world
+   */
+  addSystem(system: System): void {
+    this.world.addSystem(system);
+  }
+
+  /**
+   * Advance the simulation by one frame
+   * @param delta - Time elapsed since last frame (in milliseconds)
+   */
+  update(delta: number): void {
+    // Update ECS World (fixed ticks, then render phase)
+    this.world.update(delta);
+  }
+
+  /**
+   * Advance the simulation by exactly one tick (used by replays)
+   */
+  step(): void {
+    this.world.step();
+  }
+
+  /**
+   * Set the player's movement direction (-1..1 per axis, normalized here)
+   * Applied from the next tick on
+   */
+  setPlayerInput(dx: number, dy: number): void {
+    this.inputSystem.setMovement(dx, dy);
+  }
+
+  /**
+   * Player attacks in the direction they are facing (on the next tick)
+   */
+  attack(): void {
+    this.inputSystem.requestAttack();
+  }
+
+  /**
+   * Player input as applied each tick (used to record replays)
+   */
+  getInput(): PlayerInputSystem {
+    return this.inputSystem;
+  }
+
+  getPlayer(): Entity {
+    return this.playerEntity;
+  }
+
+  /**
+   * Parent/child attachments (weapons, health bars, orbiting projectiles)
+   */
+  getHierarchy(): HierarchySystem {
+    return this.hierarchySystem;
+  }
+
+  /**
+   * Seed of this run (share it to replay the same dungeon and encounters)
+   */
+  getSeed(): number {
+    return this.world.random.getSeed();
+  }
+
+  /**
+   * Options this simulation was created with (seed resolved)
+   */
+  getOptions(): Readonly<Required<SimulationOptions>> {
+    return this.options;
+  }
+
+  getDungeon(): Dungeon {
+    return this.dungeon;
+  }
+
+  /**
+   * Get the current floor (1 = first floor)
+   */
+  getDepth(): number {
+    return this.depth;
+  }
+
+  /**
+   * Get what the player sees and remembers of the current floor
+   */
+  getFieldOfView(): FieldOfView {
+    return this.visionSystem.getFieldOfView()!;
+  }
+
+  /**
+   * Go down to the next floor
+   * Everything on the current floor is removed except the player and what is
+   * attached to it; the player keeps its stats and starts in the new spawn room.
+   * Entities are removed at once, so call this between ticks (reaching the stairs
+   * descends at the start of the next tick, see DescentSystem)
+   */
+  descend(): void {
+    const keep = this.collectAttached(this.playerEntity);
+    for (const entity of this.world.getAllEntities()) {
+      if (!keep.has(entity.id)) this.world.removeEntity(entity);
+    }
+
+    this.buildFloor(this.depth + 1);
+
+    const transform = this.world.getComponent(this.playerEntity, 'Transform');
+    if (transform) {
+      const spawn = this.dungeon.getRoomCenter(this.dungeon.getSpawnRoom());
+      transform.x = transform.prevX = spawn.x;
+      transform.y = transform.prevY = spawn.y;
+    }
+
+    this.spawnInitialEnemies();
+    this.world.events.emit('floor:entered', { depth: this.depth });
+  }
+
+  getMonstersKilled(): number {
+    return this.monstersKilled;
+  }
+
+  /**
+   * Save the current run as a JSON snapshot
+   */
+  saveRun(): string {
+    return this.serializer.toJSON(this.world);
+  }
+
+  /**
+   * Load a run saved with saveRun
+   */
+  loadRun(json: string): void {
+    this.serializer.fromJSON(this.world, json);
+
+    const player = this.world.queryEntities('Player')[0];
+    if (!player) {
+      throw new Error('Saved run has no player entity');
+    }
+
+    this.playerEntity = player;
+    this.aiSystem.setPlayerEntity(player.id);
+    this.spawnSystem.setPlayerEntity(player.id);
+    this.descentSystem.cancel();
+
+    // Rebuild the floor the player was saved on from the saved seed (its enemies come from the snapshot)
+    const depth = this.world.getComponent(player, 'Player')?.depth ?? 1;
+    this.buildFloor(depth);
+    this.world.events.emit('floor:entered', { depth });
+
+    for (const listener of this.loadListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Subscribe to runs being loaded (the world's contents were replaced)
+   * @returns Function that removes the listener
+   */
+  onRunLoaded(listener: () => void): () => void {
+    this.loadListeners.add(listener);
+    return () => this.loadListeners.delete(listener);
+  }
+
+  /**
+   * Cleanup simulation
+   */
+  destroy(): void {
+    // Also drops every listener on the world's event bus
+    this.world.destroy();
+  }
+
+  /**
+   * Generate the layout of a floor and point the systems at it
+   */
+  private buildFloor(depth: number) {
+    const { width, height, tileSize, map } = this.options;
+    const random = this.world.random.derive(`map:${depth}`);
+
+    this.depth = depth;
+    if (map && depth === 1) {
+      const preset = new PresetGenerator(map.layout);
+      this.dungeon = new Dungeon(map.width * tileSize, map.height * tileSize, tileSize, random, preset);
+      this.spawnSystem.setMinEnemies(map.minEnemies);
+    } else {
+      this.dungeon = new Dungeon(width, height, tileSize, random, this.generator);
+      this.spawnSystem.setMinEnemies(MIN_ENEMIES);
+    }
+
+    this.movementSystem.setDungeon(this.dungeon);
+    this.aiSystem.setDungeon(this.dungeon);
+    this.spawnSystem.setDungeon(this.dungeon);
+    this.spawnSystem.setDepth(depth);
+    this.stairsSystem.setDungeon(this.dungeon);
+    this.hazardSystem.setDungeon(this.dungeon);
+    this.visionSystem.setDungeon(this.dungeon);
+
+    const playerComponent = this.playerEntity && this.world.getComponent(this.playerEntity, 'Player');
+    if (playerComponent) playerComponent.depth = depth;
+  }
+
+  /**
+   * An entity and everything attached below it
+   */
+  private collectAttached(root: Entity): Set<EntityId> {
+    const collected: Set<EntityId> = new Set([root.id]);
+    const pending = [root];
+
+    let next: Entity | undefined;
+    while ((next = pending.pop())) {
+      for (const child of this.hierarchySystem.getChildren(next)) {
+        if (collected.has(child.id)) continue;
+        collected.add(child.id);
+        pending.push(child);
+      }
+    }
+
+    return collected;
+  }
+
+  /**
+   * Create the enemies and triggers placed on a hand-authored map
+   */
+  private placeMapObjects(map: TiledMap) {
+    const { tileSize } = this.options;
+
+    for (const enemy of map.enemies) {
+      this.factory.instantiate(enemy.prefab, enemy.x * tileSize, enemy.y * tileSize);
+    }
+
+    for (const trigger of map.triggers) {
+      this.factory.createTrigger(
+        trigger.x * tileSize,
+        trigger.y * tileSize,
+        trigger.width * tileSize,
+        trigger.height * tileSize,
+        trigger.name,
+        trigger.once
+      );
+    }
+  }
+
+  private spawnInitialEnemies() {
+    for (let i = 0; i < 5; i++) {
+      this.spawnSystem.spawnRandomEnemy('initialEnemies');
+    }
+  }
+
+  private handleEnemyKilled = (data: GameEventData<'enemy:killed'>): void => {
+    this.monstersKilled++;
+
+    // Give player experience
+    const playerComponent = this.world.getComponent(this.playerEntity, 'Player');
+    if (!playerComponent) return;
+
+    playerComponent.experience += data.expReward;
+
+    // Check for level up
+    if (playerComponent.experience >= playerComponent.experienceToNextLevel) {
+      this.handleLevelUp();
+    }
+  };
+
+  private handleLevelUp() {
+    const playerComponent = this.world.getComponent(this.playerEntity, 'Player');
+    const playerHealth = this.world.getComponent(this.playerEntity, 'Health');
+    const playerCombat = this.world.getComponent(this.playerEntity, 'Combat');
+    const playerMovement = this.world.getComponent(this.playerEntity, 'Movement');
+
+    if (!playerComponent || !playerHealth || !playerCombat || !playerMovement) return;
+
+    // Level up
+    playerComponent.level++;
+    playerComponent.experience -= playerComponent.experienceToNextLevel;
+    playerComponent.experienceToNextLevel = Math.floor(
+      playerComponent.experienceToNextLevel * 1.5
+    );
+
+    // Automatic stat increases
+    playerHealth.max += 20;
+    playerHealth.current = playerHealth.max;
+    playerCombat.damage += 3;
+    playerCombat.defense += 2;
+    playerMovement.speed += 0.2;
+    playerComponent.strength += 3;
+
+    // Grant upgrade points
+    playerComponent.upgradePoints += 3;
+
+    // Show notification
+    console.log(`LEVEL UP! Now Level ${playerComponent.level}`);
+
+    // Emit level up event
+    this.world.events.emit('player:levelup', {
+      player: this.playerEntity,
+      level: playerComponent.level,
+      newStrength: playerComponent.strength,
+      newDefense: playerCombat.defense,
+      newSpeed: playerMovement.speed
+    });
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Hierarchy Component - Attaches an entity to a parent entity
+ * While attached, Transform x/y is derived from the parent's position plus the
+ * local offset, and the entity is destroyed together with its parent
+ * (see HierarchySystem). Registered with the core ECS from the game layer.
+ */
+
+import { BaseComponent } from '../../core/ecs/Component';
+import type { EntityId } from '../../core/ecs/Entity';
+import { componentRegistry } from '../../core/ecs/ComponentRegistry';
+import { FieldReader } from '../../core/ecs/FieldReader';
+
+export class HierarchyComponent extends BaseComponent {
+  readonly type = 'Hierarchy' as const;
+
+  constructor(
+    public parentId: EntityId | null = null,
+    public offsetX: number = 0,
+    public offsetY: number = 0
+  ) {
+    super();
+  }
+}
+
+declare module '../../core/ecs/ComponentTypes' {
+  interface ComponentTypeMap {
+    Hierarchy: HierarchyComponent;
+  }
+}
+
+componentRegistry.register('Hierarchy', {
+  // The parent is an entity, so it is assigned when attaching (see HierarchySystem)
+  schema: {
+    fields: {
+      offsetX: { type: 'number' },
+      offsetY: { type: 'number' }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Hierarchy');
+      return new HierarchyComponent(null, v.optionalNumber('offsetX'), v.optionalNumber('offsetY'));
+    }
+  },
+  codec: {
+    serialize: c => ({ parentId: c.parentId, offsetX: c.offsetX, offsetY: c.offsetY }),
+    deserialize: (data, ctx) => {
+      const d = new FieldReader(data, 'Hierarchy');
+      return new HierarchyComponent(ctx.resolveId(d.entityId('parentId')), d.number('offsetX'), d.number('offsetY'));
+    }
+  }
+});
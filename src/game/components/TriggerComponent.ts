@@ -0,0 +1,46 @@
+/**
+ * Trigger Component - Area that reports when the player walks into it
+ * The area is the entity's Transform; once-only triggers are removed after
+ * firing (see TriggerSystem). Registered with the core ECS from the game layer.
+ */
+
+import { BaseComponent } from '../../core/ecs/Component';
+import { componentRegistry } from '../../core/ecs/ComponentRegistry';
+import { FieldReader } from '../../core/ecs/FieldReader';
+
+export class TriggerComponent extends BaseComponent {
+  readonly type = 'Trigger' as const;
+
+  constructor(
+    public name: string = '',
+    public once: boolean = false
+  ) {
+    super();
+  }
+}
+
+declare module '../../core/ecs/ComponentTypes' {
+  interface ComponentTypeMap {
+    Trigger: TriggerComponent;
+  }
+}
+
+componentRegistry.register('Trigger', {
+  schema: {
+    fields: {
+      name: { type: 'string' },
+      once: { type: 'boolean' }
+    },
+    create: values => {
+      const v = new FieldReader(values, 'Trigger');
+      return new TriggerComponent(v.optionalString('name'), v.optionalBoolean('once'));
+    }
+  },
+  codec: {
+    serialize: c => ({ name: c.name, once: c.once }),
+    deserialize: data => {
+      const d = new FieldReader(data, 'Trigger');
+      return new TriggerComponent(d.string('name'), d.boolean('once'));
+    }
+  }
+});
@@ -5,160 +5,104 @@
 
 import type { World } from '../../core/ecs/World';
 import type { Entity } from '../../core/ecs/Entity';
-import {
-  TransformComponent,
-  HealthComponent,
-  CombatComponent,
-  MovementComponent,
-  SpriteComponent,
-  AIComponent,
-  PlayerComponent,
-  EnemyComponent,
-  AnimationComponent,
-  StateMachineComponent
-} from '../../core/ecs/ComponentTypes';
-import type { GameScene } from '../../rendering/scenes/GameScene';
+import { componentRegistry } from '../../core/ecs/ComponentRegistry';
+import { PrefabRegistry, type PrefabDefinition } from '../prefabs/PrefabRegistry';
+import { TableRegistry, type TableContext, type TableDefinition } from '../tables/TableRegistry';
+import prefabData from '../prefabs/prefabs.json' with { type: 'json' };
+import tableData from '../tables/tables.json' with { type: 'json' };
+// Game-layer components must be registered before the built-in prefabs are validated
+import '../components/HierarchyComponent';
+import '../components/TriggerComponent';
 
 export type EnemyType = 'slime' | 'goblin' | 'skeleton' | 'demon';
 
-interface EnemyStats {
-  color: number;
-  health: number;
-  damage: number;
-  speed: number;
-  exp: number;
-  attackCooldown: number;
-}
+/**
+ * Built-in prefabs shipped with the game (validated at startup)
+ */
+export const defaultPrefabs = new PrefabRegistry();
+defaultPrefabs.define(prefabData as Record<string, PrefabDefinition>, 'prefabs.json');
+
+/**
+ * Built-in spawn tables (items are prefab names)
+ */
+export const defaultTables = new TableRegistry();
+defaultTables.define(tableData as Record<string, TableDefinition>, 'tables.json');
 
 export class EntityFactory {
-  private scene: GameScene;
   private world: World;
+  private prefabs: PrefabRegistry;
+  private tables: TableRegistry;
 
-  private static readonly ENEMY_STATS: Record<EnemyType, EnemyStats> = {
-    slime: {
-      color: 0x8b5cf6,
-      health: 30,
-      damage: 5,
-      speed: 1,
-      exp: 25,
-      attackCooldown: 1500
-    },
-    goblin: {
-      color: 0xef4444,
-      health: 50,
-      damage: 10,
-      speed: 1.5,
-      exp: 50,
-      attackCooldown: 1500
-    },
-    skeleton: {
-      color: 0xf3f4f6,
-      health: 70,
-      damage: 15,
-      speed: 1.2,
-      exp: 75,
-      attackCooldown: 1500
-    },
-    demon: {
-      color: 0x991b1b,
-      health: 100,
-      damage: 20,
-      speed: 0.8,
-      exp: 150,
-      attackCooldown: 1500
-    }
-  };
-
-  constructor(scene: GameScene, world: World) {
-    this.scene = scene;
+  constructor(world: World, prefabs: PrefabRegistry = defaultPrefabs, tables: TableRegistry = defaultTables) {
     this.world = world;
+    this.prefabs = prefabs;
+    this.tables = tables;
   }
 
   /**
-   * Create player entity
+   * Create an entity from a prefab, placed at (x, y)
+   * Throws PrefabError if the prefab does not exist
    */
-  createPlayer(x: number, y: number): Entity {
+  instantiate(prefabName: string, x: number, y: number): Entity {
+    const prefab = this.prefabs.get(prefabName);
     const entity = this.world.createEntity();
 
-    // Add components
-    this.world.addComponent(entity, new TransformComponent(x, y, 30, 30));
-    this.world.addComponent(entity, new HealthComponent(100, 100));
-    this.world.addComponent(entity, new CombatComponent(10, 5, 50, 500));
-    this.world.addComponent(entity, new MovementComponent(3, 'down'));
-    this.world.addComponent(
-      entity,
-      new SpriteComponent(this.scene.add.graphics(), 0x4ecca3, 1)
-    );
-    this.world.addComponent(entity, new PlayerComponent(1, 0, 100, 10, 0));
-
-    // Add animation and state machine
-    this.world.addComponent(entity, new AnimationComponent('idle'));
-
-    const stateMachine = new StateMachineComponent('idle');
-    stateMachine.transitions.set('idle', ['walking', 'attacking', 'dead']);
-    stateMachine.transitions.set('walking', ['idle', 'attacking', 'dead']);
-    stateMachine.transitions.set('attacking', ['idle', 'walking', 'dead']);
-    stateMachine.transitions.set('dead', []);
-    this.world.addComponent(entity, stateMachine);
+    for (const [type, fields] of prefab.components) {
+      const values = type === 'Transform' ? { ...fields, x, y } : fields;
+      // Prefabs only contain components with a schema and valid fields (checked when loaded)
+      const schema = componentRegistry.getSchema(type)!;
+      this.world.addComponent(entity, schema.create(values));
+    }
 
     return entity;
   }
 
+  /**
+   * Create player entity
+   */
+  createPlayer(x: number, y: number): Entity {
+    return this.instantiate('player', x, y);
+  }
+
   /**
    * Create enemy entity
    */
   createEnemy(x: number, y: number, type: EnemyType): Entity {
-    const stats = EntityFactory.ENEMY_STATS[type];
-    const entity = this.world.createEntity();
+    return this.instantiate(type, x, y);
+  }
 
-    // Add components
-    this.world.addComponent(entity, new TransformComponent(x, y, 25, 25));
-    this.world.addComponent(entity, new HealthComponent(stats.health, stats.health));
-    this.world.addComponent(
-      entity,
-      new CombatComponent(stats.damage, 0, 35, stats.attackCooldown)
-    );
-    this.world.addComponent(entity, new MovementComponent(stats.speed, 'down'));
-    this.world.addComponent(
-      entity,
-      new SpriteComponent(this.scene.add.graphics(), stats.color, 0)
-    );
-    this.world.addComponent(entity, new AIComponent(200, 35, 'chase'));
-    this.world.addComponent(entity, new EnemyComponent(type, stats.exp));
-
-    // Add animation and state machine
-    this.world.addComponent(entity, new AnimationComponent('idle'));
-
-    const stateMachine = new StateMachineComponent('idle');
-    stateMachine.transitions.set('idle', ['chasing', 'dead']);
-    stateMachine.transitions.set('chasing', ['idle', 'dead']);
-    stateMachine.transitions.set('dead', []);
-    this.world.addComponent(entity, stateMachine);
+  /**
+   * Create a trigger area that fires 'trigger:entered' when the player walks in
+   * @param once - Remove the trigger after it fired
+   */
+  createTrigger(x: number, y: number, width: number, height: number, name: string, once: boolean = false): Entity {
+    const entity = this.instantiate('trigger', x, y);
+
+    const transform = this.world.getComponent(entity, 'Transform')!;
+    transform.width = width;
+    transform.height = height;
+
+    const trigger = this.world.getComponent(entity, 'Trigger')!;
+    trigger.name = name;
+    trigger.once = once;
 
     return entity;
   }
 
   /**
-   * Create random enemy based on player level
+   * Create an entity from a prefab picked from a spawn table
+   * @returns The entity, or null if the table yielded nothing
    */
-  createRandomEnemy(x: number, y: number, playerLevel: number): Entity {
-    let type: EnemyType;
-
-    if (playerLevel >= 5) {
-      type = Math.random() < 0.5 ? 'skeleton' : 'demon';
-    } else if (playerLevel >= 3) {
-      type = Math.random() < 0.5 ? 'goblin' : 'skeleton';
-    } else {
-      type = Math.random() < 0.7 ? 'slime' : 'goblin';
-    }
-
-    return this.createEnemy(x, y, type);
+  createFromTable(table: string, x: number, y: number, context: TableContext = {}): Entity | null {
+    const prefabName = this.tables.rollOne(table, this.world.random.get('spawn'), context);
+    return prefabName === null ? null : this.instantiate(prefabName, x, y);
   }
 
   /**
-   * Get enemy stats (for external use)
+   * Create random enemy for a dungeon floor
+   * Deeper floors roll tougher tiers; a high player level moves a floor up one tier
    */
-  static getEnemyStats(type: EnemyType): EnemyStats {
-    return { ...EntityFactory.ENEMY_STATS[type] };
+  createRandomEnemy(x: number, y: number, playerLevel: number, depth: number = 1): Entity | null {
+    return this.createFromTable('enemies', x, y, { level: playerLevel, depth });
   }
 }
@@ -0,0 +1,260 @@
+/**
+ * BSPGenerator - Rooms connected by corridors
+ * Recursively splits the map into partitions (binary space partitioning),
+ * places one room inside each leaf, then connects sibling partitions with
+ * L-shaped corridors so every room is reachable. Doors are set where narrow
+ * corridors meet rooms, and some rooms get hazards. The player starts in a
+ * random room and the exit is placed in the room farthest from it.
+ */
+
+import type { Random } from '../../core/utils/Random';
+import { TILE_DOOR, TILE_FLOOR, TILE_WALL } from '../tiles/TileRegistry';
+import { placeHazards, type HazardOptions } from './HazardPlacer';
+import {
+  createTileGrid,
+  getRoomCenter,
+  type DungeonGenerator,
+  type DungeonLayout,
+  type Room
+} from './DungeonGenerator';
+
+export interface BSPOptions {
+  /**
+   * Smallest partition size in tiles, including the wall margin (default 6)
+   */
+  minLeafSize?: number;
+  /**
+   * Smallest room size in tiles (default 3)
+   */
+  minRoomSize?: number;
+  /**
+   * Corridor width in tiles (default 1)
+   */
+  corridorWidth?: number;
+  /**
+   * Hazard placement, or false for none
+   */
+  hazards?: HazardOptions | false;
+}
+
+interface Leaf {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  children: [Leaf, Leaf] | null;
+  room: Room | null;
+}
+
+export class BSPGenerator implements DungeonGenerator {
+  private minLeafSize: number;
+  private minRoomSize: number;
+  private corridorWidth: number;
+  private hazards: HazardOptions | false;
+
+  constructor(options: BSPOptions = {}) {
+    this.minLeafSize = options.minLeafSize ?? 6;
+    this.minRoomSize = options.minRoomSize ?? 3;
+    this.corridorWidth = options.corridorWidth ?? 1;
+    this.hazards = options.hazards ?? {};
+
+    if (this.minRoomSize < 1 || this.minLeafSize < this.minRoomSize + 2) {
+      throw new Error('BSPGenerator: minLeafSize must leave room for a wall on each side of the smallest room');
+    }
+  }
+
+  generate(width: number, height: number, random: Random): DungeonLayout {
+    const tiles = createTileGrid(width, height, TILE_WALL);
+
+    // Keep the outer border solid
+    const root: Leaf = { x: 1, y: 1, width: width - 2, height: height - 2, children: null, room: null };
+    this.split(root, random);
+
+    const rooms: Room[] = [];
+    this.placeRooms(root, random, rooms);
+
+    if (rooms.length === 0) {
+      throw new Error(`BSPGenerator: map of ${width}x${height} tiles is too small for a room`);
+    }
+
+    for (const room of rooms) {
+      this.carve(tiles, room.x, room.y, room.width, room.height);
+    }
+    this.connect(root, tiles, random);
+    this.placeDoors(tiles, rooms);
+
+    const spawnRoom = random.choice(rooms);
+    const exitRoom = this.findFarthestRoom(spawnRoom, rooms);
+    const layout: DungeonLayout = { tiles, rooms, spawnRoom, exitRoom };
+
+    if (this.hazards) placeHazards(layout, random, this.hazards);
+
+    return layout;
+  }
+
+  /**
+   * Split a leaf in two (across its longer side) until partitions are too small
+   */
+  private split(leaf: Leaf, random: Random): void {
+    const canSplitX = leaf.width >= this.minLeafSize * 2;
+    const canSplitY = leaf.height >= this.minLeafSize * 2;
+    if (!canSplitX && !canSplitY) return;
+
+    let vertical: boolean;
+    if (canSplitX && canSplitY) {
+      // Prefer cutting elongated partitions across, otherwise either way
+      const ratio = leaf.width / leaf.height;
+      vertical = ratio >= 1.25 ? true : ratio <= 0.8 ? false : random.nextBoolean();
+    } else {
+      vertical = canSplitX;
+    }
+
+    const size = vertical ? leaf.width : leaf.height;
+    const cut = random.nextInt(this.minLeafSize, size - this.minLeafSize);
+
+    leaf.children = vertical
+      ? [
+          { x: leaf.x, y: leaf.y, width: cut, height: leaf.height, children: null, room: null },
+          { x: leaf.x + cut, y: leaf.y, width: leaf.width - cut, height: leaf.height, children: null, room: null }
+        ]
+      : [
+          { x: leaf.x, y: leaf.y, width: leaf.width, height: cut, children: null, room: null },
+          { x: leaf.x, y: leaf.y + cut, width: leaf.width, height: leaf.height - cut, children: null, room: null }
+        ];
+
+    this.split(leaf.children[0], random);
+    this.split(leaf.children[1], random);
+  }
+
+  /**
+   * Place a room in every leaf, leaving a wall margin so neighbouring rooms never merge
+   */
+  private placeRooms(leaf: Leaf, random: Random, rooms: Room[]): void {
+    if (leaf.children) {
+      this.placeRooms(leaf.children[0], random, rooms);
+      this.placeRooms(leaf.children[1], random, rooms);
+      return;
+    }
+
+    const maxWidth = leaf.width - 2;
+    const maxHeight = leaf.height - 2;
+    if (maxWidth < this.minRoomSize || maxHeight < this.minRoomSize) return;
+
+    const width = random.nextInt(this.minRoomSize, maxWidth);
+    const height = random.nextInt(this.minRoomSize, maxHeight);
+    const room: Room = {
+      x: leaf.x + random.nextInt(1, leaf.width - width - 1),
+      y: leaf.y + random.nextInt(1, leaf.height - height - 1),
+      width,
+      height
+    };
+
+    leaf.room = room;
+    rooms.push(room);
+  }
+
+  /**
+   * Join the two halves of every split with a corridor between one room from each
+   */
+  private connect(leaf: Leaf, tiles: number[][], random: Random): void {
+    if (!leaf.children) return;
+
+    this.connect(leaf.children[0], tiles, random);
+    this.connect(leaf.children[1], tiles, random);
+
+    const a = this.pickRoom(leaf.children[0], random);
+    const b = this.pickRoom(leaf.children[1], random);
+    if (a && b) this.carveCorridor(tiles, a, b, random);
+  }
+
+  /**
+   * Any room inside a partition
+   */
+  private pickRoom(leaf: Leaf, random: Random): Room | null {
+    if (!leaf.children) return leaf.room;
+
+    const [first, second] = random.nextBoolean() ? leaf.children : [leaf.children[1], leaf.children[0]];
+    return this.pickRoom(first, random) ?? this.pickRoom(second, random);
+  }
+
+  /**
+   * L-shaped corridor between two room centers (bend direction is random)
+   */
+  private carveCorridor(tiles: number[][], a: Room, b: Room, random: Random): void {
+    const from = getRoomCenter(a);
+    const to = getRoomCenter(b);
+    const x1 = Math.floor(from.x);
+    const y1 = Math.floor(from.y);
+    const x2 = Math.floor(to.x);
+    const y2 = Math.floor(to.y);
+    const w = this.corridorWidth;
+
+    if (random.nextBoolean()) {
+      this.carve(tiles, Math.min(x1, x2), y1, Math.abs(x2 - x1) + w, w);
+      this.carve(tiles, x2, Math.min(y1, y2), w, Math.abs(y2 - y1) + w);
+    } else {
+      this.carve(tiles, x1, Math.min(y1, y2), w, Math.abs(y2 - y1) + w);
+      this.carve(tiles, Math.min(x1, x2), y2, Math.abs(x2 - x1) + w, w);
+    }
+  }
+
+  /**
+   * Put doors where a one-tile corridor enters a room (corridor tile right
+   * outside the room with wall on both sides along the room's edge)
+   */
+  private placeDoors(tiles: number[][], rooms: Room[]): void {
+    const isWall = (x: number, y: number): boolean => (tiles[y]?.[x] ?? TILE_WALL) === TILE_WALL;
+    const tryDoor = (x: number, y: number, horizontalEdge: boolean): void => {
+      if (tiles[y]?.[x] !== TILE_FLOOR) return;
+
+      const sidesBlocked = horizontalEdge
+        ? isWall(x - 1, y) && isWall(x + 1, y)
+        : isWall(x, y - 1) && isWall(x, y + 1);
+      // One door per doorway, even where a short corridor touches two rooms
+      const nextToDoor = [tiles[y - 1]?.[x], tiles[y + 1]?.[x], tiles[y][x - 1], tiles[y][x + 1]].includes(TILE_DOOR);
+      if (sidesBlocked && !nextToDoor) tiles[y][x] = TILE_DOOR;
+    };
+
+    for (const room of rooms) {
+      for (let x = room.x; x < room.x + room.width; x++) {
+        tryDoor(x, room.y - 1, true);
+        tryDoor(x, room.y + room.height, true);
+      }
+      for (let y = room.y; y < room.y + room.height; y++) {
+        tryDoor(room.x - 1, y, false);
+        tryDoor(room.x + room.width, y, false);
+      }
+    }
+  }
+
+  /**
+   * Turn a rectangle into floor (clipped so the outer border stays solid)
+   */
+  private carve(tiles: number[][], x: number, y: number, width: number, height: number): void {
+    const mapHeight = tiles.length;
+    const mapWidth = tiles[0]?.length ?? 0;
+
+    for (let ty = Math.max(1, y); ty < Math.min(mapHeight - 1, y + height); ty++) {
+      for (let tx = Math.max(1, x); tx < Math.min(mapWidth - 1, x + width); tx++) {
+        tiles[ty][tx] = TILE_FLOOR;
+      }
+    }
+  }
+
+  private findFarthestRoom(from: Room, rooms: Room[]): Room {
+    const origin = getRoomCenter(from);
+    let farthest = from;
+    let farthestDistance = -1;
+
+    for (const room of rooms) {
+      const center = getRoomCenter(room);
+      const distance = Math.abs(center.x - origin.x) + Math.abs(center.y - origin.y);
+      if (distance > farthestDistance) {
+        farthest = room;
+        farthestDistance = distance;
+      }
+    }
+
+    return farthest;
+  }
+}
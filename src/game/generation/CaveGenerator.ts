@@ -0,0 +1,314 @@
+/**
+ * CaveGenerator - Organic caves from cellular automata
+ * Starts from random noise and repeatedly smooths it (a tile becomes wall when
+ * most of its neighbours are walls). Smoothing can leave sealed-off pockets, so
+ * every pocket is then either filled in (if tiny) or joined to the main cave
+ * with a tunnel - the whole cave is reachable from the spawn.
+ * Open 3x3 areas are reported as rooms for spawning, objectives and hazards.
+ */
+
+import type { Random } from '../../core/utils/Random';
+import { TILE_FLOOR, TILE_WALL } from '../tiles/TileRegistry';
+import { placeHazards, type HazardOptions } from './HazardPlacer';
+import {
+  createTileGrid,
+  type DungeonGenerator,
+  type DungeonLayout,
+  type Room
+} from './DungeonGenerator';
+
+export interface CaveOptions {
+  /**
+   * Chance of a tile starting as wall (default 0.45)
+   */
+  fillChance?: number;
+  /**
+   * Smoothing passes (default 5)
+   */
+  iterations?: number;
+  /**
+   * Pockets smaller than this many tiles are filled in rather than tunnelled to (default 8)
+   */
+  minPocketSize?: number;
+  /**
+   * Hazard placement, or false for none
+   */
+  hazards?: HazardOptions | false;
+}
+
+// Side length of the open squares reported as rooms
+const ROOM_SIZE = 3;
+
+const NEIGHBOURS: readonly [number, number][] = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1]
+];
+
+export class CaveGenerator implements DungeonGenerator {
+  private fillChance: number;
+  private iterations: number;
+  private minPocketSize: number;
+  private hazards: HazardOptions | false;
+
+  constructor(options: CaveOptions = {}) {
+    this.fillChance = options.fillChance ?? 0.45;
+    this.iterations = options.iterations ?? 5;
+    this.minPocketSize = options.minPocketSize ?? 8;
+    this.hazards = options.hazards ?? {};
+  }
+
+  generate(width: number, height: number, random: Random): DungeonLayout {
+    let tiles = createTileGrid(width, height, TILE_WALL);
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        tiles[y][x] = random.nextBoolean(this.fillChance) ? TILE_WALL : TILE_FLOOR;
+      }
+    }
+
+    for (let i = 0; i < this.iterations; i++) {
+      tiles = this.smooth(tiles);
+    }
+
+    this.connectPockets(tiles);
+
+    const rooms = this.findRooms(tiles, random);
+    if (rooms.length === 0) {
+      // Too cramped for an open area anywhere - clear one in the middle
+      const room: Room = {
+        x: Math.max(1, Math.floor(width / 2) - 1),
+        y: Math.max(1, Math.floor(height / 2) - 1),
+        width: Math.min(ROOM_SIZE, width - 2),
+        height: Math.min(ROOM_SIZE, height - 2)
+      };
+      this.clearRoom(tiles, room);
+      this.connectPockets(tiles);
+      rooms.push(room);
+    }
+
+    const spawnRoom = random.choice(rooms);
+    const exitRoom = this.findFarthestRoom(tiles, spawnRoom, rooms);
+    const layout: DungeonLayout = { tiles, rooms, spawnRoom, exitRoom };
+
+    if (this.hazards) placeHazards(layout, random, this.hazards);
+
+    return layout;
+  }
+
+  /**
+   * One cellular automata pass (the outer border stays solid)
+   */
+  private smooth(tiles: number[][]): number[][] {
+    const height = tiles.length;
+    const width = tiles[0].length;
+    const next = createTileGrid(width, height, TILE_WALL);
+
+    for (let y = 1; y < height - 1; y++) {
+      for (let x = 1; x < width - 1; x++) {
+        let walls = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            if ((dx !== 0 || dy !== 0) && tiles[y + dy][x + dx] === TILE_WALL) walls++;
+          }
+        }
+        next[y][x] = walls > 4 ? TILE_WALL : walls < 4 ? TILE_FLOOR : tiles[y][x];
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Label 4-connected floor regions
+   * @returns Region index per tile (-1 for walls) and the tiles of each region
+   */
+  private findRegions(tiles: number[][]): { labels: number[][]; regions: [number, number][][] } {
+    const height = tiles.length;
+    const width = tiles[0].length;
+    const labels = Array.from({ length: height }, () => new Array<number>(width).fill(-1));
+    const regions: [number, number][][] = [];
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (tiles[y][x] !== TILE_FLOOR || labels[y][x] !== -1) continue;
+
+        const region: [number, number][] = [];
+        const stack: [number, number][] = [[x, y]];
+        labels[y][x] = regions.length;
+
+        while (stack.length > 0) {
+          const [cx, cy] = stack.pop()!;
+          region.push([cx, cy]);
+
+          for (const [dx, dy] of NEIGHBOURS) {
+            const nx = cx + dx;
+            const ny = cy + dy;
+            if (tiles[ny]?.[nx] === TILE_FLOOR && labels[ny][nx] === -1) {
+              labels[ny][nx] = regions.length;
+              stack.push([nx, ny]);
+            }
+          }
+        }
+
+        regions.push(region);
+      }
+    }
+
+    return { labels, regions };
+  }
+
+  /**
+   * Make all floor one connected cave: fill tiny pockets, tunnel from the
+   * others to the nearest tile of the largest region
+   */
+  private connectPockets(tiles: number[][]): void {
+    const { labels, regions } = this.findRegions(tiles);
+    if (regions.length <= 1) return;
+
+    const order = regions.map((_, index) => index).sort((a, b) => regions[b].length - regions[a].length);
+    const main = new Set<number>([order[0]]);
+
+    for (const index of order.slice(1)) {
+      const region = regions[index];
+
+      if (region.length < this.minPocketSize) {
+        for (const [x, y] of region) {
+          tiles[y][x] = TILE_WALL;
+          labels[y][x] = -1;
+        }
+        continue;
+      }
+
+      this.tunnel(tiles, labels, region, main);
+      main.add(index);
+    }
+  }
+
+  /**
+   * Carve the shortest straight-step path from a region to any connected region
+   * (breadth-first search outward through walls)
+   */
+  private tunnel(tiles: number[][], labels: number[][], region: [number, number][], main: Set<number>): void {
+    const height = tiles.length;
+    const width = tiles[0].length;
+    const previous = new Map<number, number>();
+    const queue: number[] = [];
+
+    for (const [x, y] of region) {
+      const key = y * width + x;
+      previous.set(key, -1);
+      queue.push(key);
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const key = queue[head];
+      const x = key % width;
+      const y = Math.floor(key / width);
+
+      if (main.has(labels[y][x])) {
+        // Walk back to the pocket, carving as we go
+        for (let step = key; step !== -1; step = previous.get(step)!) {
+          const sx = step % width;
+          const sy = Math.floor(step / width);
+          tiles[sy][sx] = TILE_FLOOR;
+        }
+        return;
+      }
+
+      for (const [dx, dy] of NEIGHBOURS) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const next = ny * width + nx;
+        if (nx < 1 || ny < 1 || nx >= width - 1 || ny >= height - 1 || previous.has(next)) continue;
+
+        previous.set(next, key);
+        queue.push(next);
+      }
+    }
+  }
+
+  /**
+   * Pick non-overlapping open squares, in random order
+   */
+  private findRooms(tiles: number[][], random: Random): Room[] {
+    const height = tiles.length;
+    const width = tiles[0].length;
+    const candidates: Room[] = [];
+
+    for (let y = 1; y + ROOM_SIZE < height; y++) {
+      for (let x = 1; x + ROOM_SIZE < width; x++) {
+        const room: Room = { x, y, width: ROOM_SIZE, height: ROOM_SIZE };
+        if (this.isOpen(tiles, room)) candidates.push(room);
+      }
+    }
+
+    const rooms: Room[] = [];
+    for (const candidate of random.shuffle(candidates)) {
+      // Keep a tile of space between rooms so spawns spread out
+      const overlaps = rooms.some(
+        room =>
+          candidate.x <= room.x + room.width &&
+          room.x <= candidate.x + candidate.width &&
+          candidate.y <= room.y + room.height &&
+          room.y <= candidate.y + candidate.height
+      );
+      if (!overlaps) rooms.push(candidate);
+    }
+
+    return rooms;
+  }
+
+  private isOpen(tiles: number[][], room: Room): boolean {
+    for (let y = room.y; y < room.y + room.height; y++) {
+      for (let x = room.x; x < room.x + room.width; x++) {
+        if (tiles[y][x] !== TILE_FLOOR) return false;
+      }
+    }
+    return true;
+  }
+
+  private clearRoom(tiles: number[][], room: Room): void {
+    for (let y = room.y; y < room.y + room.height; y++) {
+      for (let x = room.x; x < room.x + room.width; x++) {
+        tiles[y][x] = TILE_FLOOR;
+      }
+    }
+  }
+
+  /**
+   * Room with the longest walk from the spawn room (breadth-first distance)
+   */
+  private findFarthestRoom(tiles: number[][], from: Room, rooms: Room[]): Room {
+    const width = tiles[0].length;
+    const distances = new Map<number, number>([[from.y * width + from.x, 0]]);
+    const queue = [from.y * width + from.x];
+
+    for (let head = 0; head < queue.length; head++) {
+      const key = queue[head];
+      const x = key % width;
+      const y = Math.floor(key / width);
+
+      for (const [dx, dy] of NEIGHBOURS) {
+        const next = (y + dy) * width + (x + dx);
+        if (tiles[y + dy]?.[x + dx] === TILE_FLOOR && !distances.has(next)) {
+          distances.set(next, distances.get(key)! + 1);
+          queue.push(next);
+        }
+      }
+    }
+
+    let farthest = from;
+    let farthestDistance = -1;
+    for (const room of rooms) {
+      const distance = distances.get(room.y * width + room.x) ?? -1;
+      if (distance > farthestDistance) {
+        farthest = room;
+        farthestDistance = distance;
+      }
+    }
+
+    return farthest;
+  }
+}
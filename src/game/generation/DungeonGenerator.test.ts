@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Random } from '../../core/utils/Random';
+import { Dungeon } from '../Dungeon';
+import { DUNGEON_GENERATORS, createGenerator, type DungeonGeneratorName } from './GeneratorRegistry';
+import { getRoomCenter } from './DungeonGenerator';
+
+const TILE_SIZE = 40;
+const SEEDS = [1, 2, 3, 42, 1337, 'caves', 'rooms', '2026-10-18'];
+
+/**
+ * Count walkable tiles (passable and not drowning) and how many of them a
+ * 4-way flood fill from the spawn room reaches
+ */
+function floodFromSpawn(dungeon: Dungeon): { walkable: number; reached: number; stairs: boolean } {
+  const width = dungeon.getWidth();
+  const height = dungeon.getHeight();
+  const isWalkable = (x: number, y: number) => {
+    const type = dungeon.getTileType(x, y);
+    return type.passable && !type.drowns;
+  };
+
+  const seen = new Set<number>();
+  const center = getRoomCenter(dungeon.getSpawnRoom());
+  const stack: [number, number][] = [[Math.floor(center.x), Math.floor(center.y)]];
+
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+    if (x < 0 || y < 0 || x >= width || y >= height || seen.has(y * width + x) || !isWalkable(x, y)) continue;
+
+    seen.add(y * width + x);
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+
+  let walkable = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isWalkable(x, y)) walkable++;
+    }
+  }
+
+  const stairs = dungeon.getStairs();
+  return { walkable, reached: seen.size, stairs: seen.has(stairs.y * width + stairs.x) };
+}
+
+function build(name: DungeonGeneratorName, seed: number | string): Dungeon {
+  return new Dungeon(2400, 1800, TILE_SIZE, new Random(seed), createGenerator(name));
+}
+
+describe.each(Object.keys(DUNGEON_GENERATORS) as DungeonGeneratorName[])('%s generator', name => {
+  it.each(SEEDS)('connects every walkable tile to the spawn (seed %s)', seed => {
+    const { walkable, reached, stairs } = floodFromSpawn(build(name, seed));
+
+    expect(reached).toBeGreaterThan(0);
+    expect(reached).toBe(walkable);
+    expect(stairs).toBe(true);
+  });
+
+  it('gives the same layout for the same seed', () => {
+    const a = build(name, 99);
+    const b = build(name, 99);
+
+    for (let y = 0; y < a.getHeight(); y++) {
+      for (let x = 0; x < a.getWidth(); x++) {
+        expect(a.getTileType(x, y).id).toBe(b.getTileType(x, y).id);
+      }
+    }
+  });
+
+  it('puts the spawn and the exit in different rooms', () => {
+    for (const seed of SEEDS) {
+      const dungeon = build(name, seed);
+
+      expect(dungeon.getRooms().length).toBeGreaterThan(1);
+      expect(dungeon.getExitRoom()).not.toBe(dungeon.getSpawnRoom());
+    }
+  });
+});
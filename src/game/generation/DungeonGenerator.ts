@@ -0,0 +1,60 @@
+/**
+ * DungeonGenerator - Interface for dungeon layout algorithms
+ * A generator fills a tile grid and describes what it built (rooms, where the
+ * player starts, where the exit is) so spawning and objectives can use it.
+ */
+
+import type { Random } from '../../core/utils/Random';
+
+/**
+ * Rectangular area of floor, in tiles
+ */
+export interface Room {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DungeonLayout {
+  /**
+   * Tile values indexed [y][x]
+   */
+  tiles: number[][];
+  rooms: Room[];
+  /**
+   * Room the player starts in
+   */
+  spawnRoom: Room;
+  /**
+   * Room holding the level's exit (the spawn room if there is only one)
+   */
+  exitRoom: Room;
+  /**
+   * Tile of the stairs down, when the generator places them itself
+   * (otherwise they go in the middle of the exit room)
+   */
+  stairs?: { x: number; y: number };
+}
+
+export interface DungeonGenerator {
+  /**
+   * Build a layout of the given size in tiles
+   * @param random - Only source of randomness (the same seed gives the same layout)
+   */
+  generate(width: number, height: number, random: Random): DungeonLayout;
+}
+
+/**
+ * Create a grid filled with one tile value
+ */
+export function createTileGrid(width: number, height: number, tile: number): number[][] {
+  return Array.from({ length: height }, () => new Array<number>(width).fill(tile));
+}
+
+/**
+ * Center of a room, in tiles (may be fractional)
+ */
+export function getRoomCenter(room: Room): { x: number; y: number } {
+  return { x: room.x + room.width / 2, y: room.y + room.height / 2 };
+}
@@ -0,0 +1,31 @@
+/**
+ * GeneratorRegistry - Built-in dungeon generators by name
+ * Names are what runs and replays store, so a run can be recreated exactly.
+ */
+
+import { BSPGenerator } from './BSPGenerator';
+import { CaveGenerator } from './CaveGenerator';
+import type { DungeonGenerator } from './DungeonGenerator';
+
+export const DUNGEON_GENERATORS = {
+  rooms: () => new BSPGenerator(),
+  caves: () => new CaveGenerator()
+} satisfies Record<string, () => DungeonGenerator>;
+
+export type DungeonGeneratorName = keyof typeof DUNGEON_GENERATORS;
+
+export const DEFAULT_GENERATOR: DungeonGeneratorName = 'rooms';
+
+/**
+ * Check if a name refers to a built-in generator
+ */
+export function isGeneratorName(name: unknown): name is DungeonGeneratorName {
+  return typeof name === 'string' && Object.hasOwn(DUNGEON_GENERATORS, name);
+}
+
+/**
+ * Create a built-in generator by name
+ */
+export function createGenerator(name: DungeonGeneratorName): DungeonGenerator {
+  return DUNGEON_GENERATORS[name]();
+}
@@ -0,0 +1,130 @@
+/**
+ * HazardPlacer - Scatters water, lava, spikes and pits through a layout
+ * Hazards go in small patches inside rooms, never in the spawn room and never
+ * on a room's middle row or column (where corridors arrive). Deadly tiles are
+ * only kept if everything reachable before stays reachable without crossing them.
+ */
+
+import type { Random } from '../../core/utils/Random';
+import { TILE_FLOOR, TILE_LAVA, TILE_PIT, TILE_SPIKES, TILE_WATER, tileRegistry } from '../tiles/TileRegistry';
+import { getRoomCenter, type DungeonLayout, type Room } from './DungeonGenerator';
+
+export interface HazardOptions {
+  /**
+   * Chance of a room getting a hazard patch (default 0.35)
+   */
+  chance?: number;
+  /**
+   * Largest patch size in tiles (default 4)
+   */
+  maxPatchSize?: number;
+}
+
+// Relative odds of each hazard
+const HAZARD_WEIGHTS: readonly [number, number][] = [
+  [TILE_WATER, 3],
+  [TILE_SPIKES, 2],
+  [TILE_LAVA, 2],
+  [TILE_PIT, 1]
+];
+
+/**
+ * Add hazard patches to a layout in place
+ */
+export function placeHazards(layout: DungeonLayout, random: Random, options: HazardOptions = {}): void {
+  const chance = options.chance ?? 0.35;
+  const maxPatchSize = options.maxPatchSize ?? 4;
+  const start = getRoomCenter(layout.spawnRoom);
+
+  for (const room of layout.rooms) {
+    if (room === layout.spawnRoom || !random.nextBoolean(chance)) continue;
+
+    const tile = pickHazard(random);
+    const patch = growPatch(layout.tiles, room, random.nextInt(1, maxPatchSize), random);
+    if (patch.length === 0) continue;
+
+    if (!tileRegistry.get(tile).drowns) {
+      for (const [x, y] of patch) layout.tiles[y][x] = tile;
+      continue;
+    }
+
+    const before = countWalkable(layout.tiles, start);
+    for (const [x, y] of patch) layout.tiles[y][x] = tile;
+
+    // Undo the patch if it cut anything off
+    if (countWalkable(layout.tiles, start) < before - patch.length) {
+      for (const [x, y] of patch) layout.tiles[y][x] = TILE_FLOOR;
+    }
+  }
+}
+
+function pickHazard(random: Random): number {
+  const total = HAZARD_WEIGHTS.reduce((sum, [, weight]) => sum + weight, 0);
+  let pick = random.nextFloat(0, total);
+  return (HAZARD_WEIGHTS.find(([, weight]) => (pick -= weight) < 0) ?? HAZARD_WEIGHTS[0])[0];
+}
+
+/**
+ * Random connected patch of floor tiles inside a room, off its middle row and column
+ */
+function growPatch(tiles: number[][], room: Room, size: number, random: Random): [number, number][] {
+  const center = getRoomCenter(room);
+  const middleX = Math.floor(center.x);
+  const middleY = Math.floor(center.y);
+  const allowed = (x: number, y: number): boolean =>
+    x >= room.x &&
+    y >= room.y &&
+    x < room.x + room.width &&
+    y < room.y + room.height &&
+    x !== middleX &&
+    y !== middleY &&
+    tiles[y][x] === TILE_FLOOR;
+
+  const candidates: [number, number][] = [];
+  for (let y = room.y; y < room.y + room.height; y++) {
+    for (let x = room.x; x < room.x + room.width; x++) {
+      if (allowed(x, y)) candidates.push([x, y]);
+    }
+  }
+  if (candidates.length === 0) return [];
+
+  const patch: [number, number][] = [random.choice(candidates)];
+  const taken = new Set([patch[0].join()]);
+
+  while (patch.length < size) {
+    const [x, y] = random.choice(patch);
+    const options = ([[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]] as [number, number][]).filter(
+      ([nx, ny]) => allowed(nx, ny) && !taken.has(`${nx},${ny}`)
+    );
+    if (options.length === 0) break;
+
+    const next = random.choice(options);
+    patch.push(next);
+    taken.add(next.join());
+  }
+
+  return patch;
+}
+
+/**
+ * Number of tiles that can be walked to from a point without falling in
+ */
+function countWalkable(tiles: number[][], start: { x: number; y: number }): number {
+  const width = tiles[0].length;
+  const seen = new Set<number>();
+  const stack: [number, number][] = [[Math.floor(start.x), Math.floor(start.y)]];
+
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+    const key = y * width + x;
+    if (seen.has(key) || tiles[y]?.[x] === undefined) continue;
+
+    const type = tileRegistry.get(tiles[y][x]);
+    if (!type.passable || type.drowns) continue;
+
+    seen.add(key);
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+
+  return seen.size;
+}
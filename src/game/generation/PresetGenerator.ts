@@ -0,0 +1,34 @@
+/**
+ * PresetGenerator - Uses a fixed, hand-authored layout (e.g. a Tiled map)
+ * Ignores the random stream; every generate() returns a fresh copy of the
+ * layout, so the dungeon can modify its tiles freely.
+ */
+
+import type { DungeonGenerator, DungeonLayout } from './DungeonGenerator';
+
+export class PresetGenerator implements DungeonGenerator {
+  private layout: DungeonLayout;
+
+  constructor(layout: DungeonLayout) {
+    this.layout = layout;
+  }
+
+  /**
+   * @throws Error if the requested size differs from the layout's
+   */
+  generate(width: number, height: number): DungeonLayout {
+    const { tiles, rooms, spawnRoom, exitRoom, stairs } = this.layout;
+
+    if (tiles.length !== height || tiles.some(row => row.length !== width)) {
+      throw new Error(`Preset layout is ${tiles[0]?.length ?? 0}x${tiles.length} tiles, not ${width}x${height}`);
+    }
+
+    return {
+      tiles: tiles.map(row => [...row]),
+      rooms: [...rooms],
+      spawnRoom,
+      exitRoom,
+      stairs: stairs && { ...stairs }
+    };
+  }
+}
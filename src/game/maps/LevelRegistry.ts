@@ -0,0 +1,29 @@
+/**
+ * LevelRegistry - Hand-authored levels bundled with the game, by name
+ * Each level is a Tiled JSON map in ./levels, used as the first floor of a run
+ * (GameScene starts one from the ?level= URL parameter).
+ */
+
+import { readTiledMap, type TiledMap } from './TiledMapLoader';
+import crypt from './levels/crypt.json' with { type: 'json' };
+
+export const LEVELS = {
+  crypt
+} satisfies Record<string, unknown>;
+
+export type LevelName = keyof typeof LEVELS;
+
+/**
+ * Check if a name refers to a bundled level
+ */
+export function isLevelName(name: unknown): name is LevelName {
+  return typeof name === 'string' && Object.hasOwn(LEVELS, name);
+}
+
+/**
+ * Validate and load a bundled level
+ * @throws TiledMapError if the level is invalid
+ */
+export function loadLevel(name: LevelName): TiledMap {
+  return readTiledMap(LEVELS[name], `${name}.json`);
+}
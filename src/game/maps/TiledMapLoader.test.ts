@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { parseTiledMap, readTiledMap, TiledMapError } from './TiledMapLoader';
+import { LEVELS, isLevelName, loadLevel } from './LevelRegistry';
+import { GameSimulation } from '../GameSimulation';
+
+const FLOOR = 1;
+const WALL = 2;
+const STAIRS = 3;
+
+/**
+ * A small map: a 6x4 room with the spawn in the west and stairs in the east
+ * Returns the tile data, objects and tileset tiles too, so tests can break them
+ */
+function createMap() {
+  // prettier-ignore
+  const data = [
+    WALL, WALL,  WALL,  WALL,  WALL,  WALL,
+    WALL, FLOOR, FLOOR, FLOOR, FLOOR, WALL,
+    WALL, FLOOR, FLOOR, FLOOR, STAIRS, WALL,
+    WALL, WALL,  WALL,  WALL,  WALL,  WALL
+  ];
+
+  const objects: object[] = [
+    { id: 1, type: 'spawn', x: 48, y: 48 },
+    { id: 2, type: 'enemy', name: 'slime', x: 112, y: 48 },
+    {
+      id: 3,
+      type: 'trigger',
+      name: 'hall',
+      x: 64,
+      y: 32,
+      width: 32,
+      height: 64,
+      properties: [{ name: 'once', value: true }]
+    }
+  ];
+
+  const tiles = [
+    { id: 0, type: 'floor' },
+    { id: 1, type: 'wall' },
+    { id: 2, type: 'stairs' }
+  ];
+
+  const map = {
+    orientation: 'orthogonal',
+    width: 6,
+    height: 4,
+    tilewidth: 32,
+    tileheight: 32,
+    layers: [
+      { type: 'tilelayer', name: 'Ground', width: 6, height: 4, data },
+      { type: 'objectgroup', name: 'Objects', objects }
+    ],
+    tilesets: [{ firstgid: 1, name: 'dungeon', tiles }]
+  };
+
+  return { map, data, objects, tiles };
+}
+
+function getIssues(run: () => unknown): string[] {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof TiledMapError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe('TiledMapLoader', () => {
+  it('reads tiles, objects and stairs', () => {
+    const map = parseTiledMap(JSON.stringify(createMap().map));
+
+    expect(map.width).toBe(6);
+    expect(map.spawn).toEqual({ x: 1.5, y: 1.5 });
+    expect(map.enemies).toEqual([{ prefab: 'slime', x: 3.5, y: 1.5 }]);
+    expect(map.triggers).toEqual([{ name: 'hall', x: 2, y: 1, width: 1, height: 2, once: true }]);
+    expect(map.layout.stairs).toEqual({ x: 4, y: 2 });
+    expect(map.layout.tiles[0][0]).toBe(map.layout.tiles[3][5]);
+  });
+
+  it('reports every problem at once', () => {
+    const { map, data, objects, tiles } = createMap();
+    objects.push(
+      { id: 4, type: 'enemy', name: 'dragon', x: 80, y: 48 },
+      { id: 5, type: 'spawn', x: 80, y: 48 },
+      { id: 6, type: 'chest', x: 80, y: 48 }
+    );
+    tiles.push({ id: 3, type: 'marble' });
+    data[0] = 4;
+
+    const issues = getIssues(() => readTiledMap(map, 'broken.json'));
+
+    expect(issues).toHaveLength(4);
+    expect(issues.some(issue => issue.includes("unknown class 'marble'"))).toBe(true);
+    expect(issues.some(issue => issue.includes("unknown enemy prefab 'dragon'"))).toBe(true);
+    expect(issues.some(issue => issue.includes('already has a player spawn'))).toBe(true);
+    expect(issues.some(issue => issue.includes("unknown object type 'chest'"))).toBe(true);
+  });
+
+  it('rejects maps whose stairs cannot be reached from the spawn', () => {
+    const { map, data } = createMap();
+    // Wall off the spawn's corner of the room
+    data[8] = WALL;
+    data[14] = WALL;
+
+    expect(getIssues(() => readTiledMap(map, 'sealed.json'))).toEqual([
+      "sealed.json: the stairs at (4, 2) can't be reached from the player spawn"
+    ]);
+  });
+
+  it('reports invalid JSON', () => {
+    expect(getIssues(() => parseTiledMap('{', 'bad.json'))).toHaveLength(1);
+  });
+});
+
+describe('LevelRegistry', () => {
+  it.each(Object.keys(LEVELS))('loads and plays the bundled level %s', name => {
+    expect(isLevelName(name)).toBe(true);
+
+    const sim = new GameSimulation({ seed: 1, map: loadLevel(name as keyof typeof LEVELS) });
+    for (let tick = 0; tick < 60; tick++) sim.step();
+
+    expect(sim.world.getTickCount()).toBe(60);
+  });
+
+  it('rejects unknown level names', () => {
+    expect(isLevelName('nowhere')).toBe(false);
+    expect(isLevelName('toString')).toBe(false);
+  });
+});
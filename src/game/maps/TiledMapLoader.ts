@@ -0,0 +1,466 @@
+/**
+ * TiledMapLoader - Reads hand-authored levels made in the Tiled editor
+ * Supports orthogonal maps saved as JSON with embedded tilesets. Tile layers are
+ * merged in order (later layers draw over earlier ones; cells empty in every
+ * layer are walls), and each tileset tile names its tile type in its class
+ * ('floor', 'wall', 'lava'...). Object layers place the player spawn, enemies
+ * (the object's name is the prefab), triggers and optional rooms.
+ * Maps are validated when loaded (including that the stairs can be reached from
+ * the spawn); every problem is reported at once.
+ */
+
+import type { DungeonLayout, Room } from '../generation/DungeonGenerator';
+import { defaultPrefabs } from '../factory/EntityFactory';
+import type { PrefabRegistry } from '../prefabs/PrefabRegistry';
+import { TILE_STAIRS, TILE_WALL, tileRegistry } from '../tiles/TileRegistry';
+
+/**
+ * Enemy placed on the map (position in tiles, may be fractional)
+ */
+export interface MapEnemy {
+  prefab: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Trigger area placed on the map (in tiles, may be fractional)
+ */
+export interface MapTrigger {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  once: boolean;
+}
+
+/**
+ * A loaded map, ready to become a dungeon floor
+ */
+export interface TiledMap {
+  /**
+   * Size in tiles
+   */
+  width: number;
+  height: number;
+  layout: DungeonLayout;
+  /**
+   * Where the player starts (in tiles, may be fractional)
+   */
+  spawn: { x: number; y: number };
+  enemies: MapEnemy[];
+  triggers: MapTrigger[];
+  /**
+   * Enemies kept alive by random spawning (map property 'minEnemies', default 0 = only placed enemies)
+   */
+  minEnemies: number;
+}
+
+/**
+ * Raised when a map can't be used; lists every problem found
+ */
+export class TiledMapError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid Tiled map:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'TiledMapError';
+  }
+}
+
+/**
+ * The parts of Tiled's JSON format the loader reads
+ */
+interface TiledProperty {
+  name: string;
+  value: unknown;
+}
+
+interface TiledObject {
+  id: number;
+  name?: string;
+  type?: string;
+  class?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  properties?: TiledProperty[];
+}
+
+interface TiledLayer {
+  type: string;
+  name?: string;
+  width?: number;
+  height?: number;
+  data?: number[] | string;
+  objects?: TiledObject[];
+  layers?: TiledLayer[];
+}
+
+interface TiledTile {
+  id: number;
+  type?: string;
+  class?: string;
+}
+
+interface TiledTileset {
+  firstgid: number;
+  name?: string;
+  source?: string;
+  tilecount?: number;
+  tiles?: TiledTile[];
+}
+
+interface TiledMapData {
+  orientation?: string;
+  infinite?: boolean;
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+  properties?: TiledProperty[];
+}
+
+const OBJECT_TYPES = ['spawn', 'enemy', 'trigger', 'room'];
+
+// Tiled stores flip/rotation flags in the top bits of a tile's global id
+const GID_MASK = 0x1fffffff;
+
+/**
+ * Parse and validate a Tiled JSON map
+ * @param source - Label used in error messages (e.g. file name)
+ * @param prefabs - Registry enemy prefab names are checked against
+ * @throws TiledMapError listing every problem found
+ */
+export function parseTiledMap(
+  json: string,
+  source: string = 'map',
+  prefabs: PrefabRegistry = defaultPrefabs
+): TiledMap {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new TiledMapError([`${source}: ${(error as Error).message}`]);
+  }
+
+  return readTiledMap(data, source, prefabs);
+}
+
+/**
+ * Validate an already parsed Tiled map (e.g. a bundled JSON module)
+ * @param source - Label used in error messages (e.g. file name)
+ * @param prefabs - Registry enemy prefab names are checked against
+ * @throws TiledMapError listing every problem found
+ */
+export function readTiledMap(
+  data: unknown,
+  source: string = 'map',
+  prefabs: PrefabRegistry = defaultPrefabs
+): TiledMap {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new TiledMapError([`${source}: expected a Tiled map object`]);
+  }
+
+  const map = data as TiledMapData;
+  const issues: string[] = [];
+  const isSize = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+  if (map.orientation !== undefined && map.orientation !== 'orthogonal') {
+    issues.push(`${source}: only orthogonal maps are supported (got '${map.orientation}')`);
+  }
+  if (map.infinite) {
+    issues.push(`${source}: infinite maps are not supported`);
+  }
+  if (!isSize(map.width) || !isSize(map.height)) {
+    issues.push(`${source}: 'width' and 'height' must be positive integers`);
+  }
+  if (!isSize(map.tilewidth) || map.tilewidth !== map.tileheight) {
+    issues.push(`${source}: tiles must be square ('tilewidth' and 'tileheight' equal and positive)`);
+  }
+  if (!Array.isArray(map.layers)) {
+    issues.push(`${source}: 'layers' must be an array`);
+  }
+  if (!Array.isArray(map.tilesets)) {
+    issues.push(`${source}: 'tilesets' must be an array`);
+  }
+  if (issues.length > 0) {
+    throw new TiledMapError(issues);
+  }
+
+  const layers = flattenLayers(map.layers);
+  const tiles = readTileLayers(map, layers, source, issues);
+  const tileSize = map.tilewidth;
+
+  let spawn: { x: number; y: number } | null = null;
+  const enemies: MapEnemy[] = [];
+  const triggers: MapTrigger[] = [];
+  const rooms: Room[] = [];
+
+  const isPassable = (x: number, y: number): boolean =>
+    tileRegistry.get(tiles[Math.floor(y)]?.[Math.floor(x)] ?? TILE_WALL).passable;
+
+  for (const layer of layers) {
+    if (layer.type !== 'objectgroup') continue;
+
+    for (const object of Array.isArray(layer.objects) ? layer.objects : []) {
+      const type = object.type || object.class || '';
+      const name = object.name ?? '';
+      const where = `${source}: object ${object.id}${name ? ` '${name}'` : ''} in layer '${layer.name ?? ''}'`;
+
+      if (typeof object.x !== 'number' || typeof object.y !== 'number') {
+        issues.push(`${where}: missing position`);
+        continue;
+      }
+
+      const x = object.x / tileSize;
+      const y = object.y / tileSize;
+      const width = (object.width ?? 0) / tileSize;
+      const height = (object.height ?? 0) / tileSize;
+
+      switch (type) {
+        case 'spawn':
+          if (spawn) {
+            issues.push(`${where}: the map already has a player spawn`);
+          } else if (!isPassable(x, y)) {
+            issues.push(`${where}: player spawn is not on a walkable tile`);
+          } else {
+            spawn = { x, y };
+          }
+          break;
+
+        case 'enemy':
+          if (!prefabs.has(name)) {
+            issues.push(`${where}: unknown enemy prefab '${name}' (the object's name must be a prefab name)`);
+          } else if (prefabs.get(name).abstract || !prefabs.get(name).components.has('Enemy')) {
+            issues.push(`${where}: prefab '${name}' is not an enemy`);
+          } else if (!isPassable(x, y)) {
+            issues.push(`${where}: enemy is not on a walkable tile`);
+          } else {
+            enemies.push({ prefab: name, x, y });
+          }
+          break;
+
+        case 'trigger': {
+          const once = getProperty(object, 'once') ?? false;
+          if (name === '') {
+            issues.push(`${where}: triggers need a name (sent with 'trigger:entered')`);
+          } else if (width <= 0 || height <= 0) {
+            issues.push(`${where}: triggers must be rectangles`);
+          } else if (typeof once !== 'boolean') {
+            issues.push(`${where}: property 'once' must be a bool`);
+          } else {
+            triggers.push({ name, x, y, width, height, once });
+          }
+          break;
+        }
+
+        case 'room':
+          if (width <= 0 || height <= 0) {
+            issues.push(`${where}: rooms must be rectangles`);
+          } else {
+            const left = Math.floor(x);
+            const top = Math.floor(y);
+            rooms.push({ x: left, y: top, width: Math.ceil(x + width) - left, height: Math.ceil(y + height) - top });
+          }
+          break;
+
+        default:
+          issues.push(
+            `${where}: unknown object type '${type}' (expected ${OBJECT_TYPES.map(t => `'${t}'`).join(', ')})`
+          );
+      }
+    }
+  }
+
+  if (!spawn) {
+    issues.push(`${source}: no player spawn (add an object of type 'spawn')`);
+  }
+
+  const stairsY = tiles.findIndex(row => row.includes(TILE_STAIRS));
+  const stairs = stairsY === -1 ? null : { x: tiles[stairsY].indexOf(TILE_STAIRS), y: stairsY };
+  if (!stairs) {
+    issues.push(`${source}: no stairs tile (the way down to the next floor)`);
+  } else if (spawn && !canWalk(tiles, spawn, stairs)) {
+    issues.push(`${source}: the stairs at (${stairs.x}, ${stairs.y}) can't be reached from the player spawn`);
+  }
+
+  const minEnemies = getProperty(map, 'minEnemies') ?? 0;
+  if (!Number.isInteger(minEnemies) || (minEnemies as number) < 0) {
+    issues.push(`${source}: map property 'minEnemies' must be a non-negative integer`);
+  }
+
+  if (issues.length > 0 || !spawn || !stairs) {
+    throw new TiledMapError(Array.from(new Set(issues)));
+  }
+
+  const spawnRoom = findRoom(rooms, spawn);
+  const exitRoom = findRoom(rooms, stairs);
+
+  return {
+    width: map.width,
+    height: map.height,
+    layout: { tiles, rooms, spawnRoom, exitRoom, stairs },
+    spawn,
+    enemies,
+    triggers,
+    minEnemies: minEnemies as number
+  };
+}
+
+/**
+ * Layers in drawing order, with group layers expanded
+ */
+function flattenLayers(layers: TiledLayer[]): TiledLayer[] {
+  return layers.flatMap(layer =>
+    layer.type === 'group' && Array.isArray(layer.layers) ? flattenLayers(layer.layers) : [layer]
+  );
+}
+
+/**
+ * Merge the tile layers into one grid of tile ids
+ */
+function readTileLayers(map: TiledMapData, layers: TiledLayer[], source: string, issues: string[]): number[][] {
+  const tiles: (number | null)[][] = Array.from({ length: map.height }, () => new Array(map.width).fill(null));
+  const resolve = createTileResolver(map.tilesets, source, issues);
+  let tileLayers = 0;
+
+  for (const layer of layers) {
+    if (layer.type !== 'tilelayer') continue;
+    tileLayers++;
+
+    const where = `${source}: layer '${layer.name ?? ''}'`;
+
+    if (typeof layer.data === 'string') {
+      issues.push(`${where}: compressed/encoded tile data is not supported (set the layer format to CSV)`);
+      continue;
+    }
+    if (layer.width !== map.width || layer.height !== map.height || !Array.isArray(layer.data)) {
+      issues.push(`${where}: expected ${map.width}x${map.height} tiles`);
+      continue;
+    }
+    if (layer.data.length !== map.width * map.height) {
+      issues.push(`${where}: expected ${map.width * map.height} tiles, got ${layer.data.length}`);
+      continue;
+    }
+
+    layer.data.forEach((gid, index) => {
+      if (gid === 0) return;
+
+      const tile = resolve(gid & GID_MASK);
+      if (tile !== null) {
+        tiles[Math.floor(index / map.width)][index % map.width] = tile;
+      }
+    });
+  }
+
+  if (tileLayers === 0) {
+    issues.push(`${source}: no tile layers`);
+  }
+
+  return tiles.map(row => row.map(tile => tile ?? TILE_WALL));
+}
+
+/**
+ * Map global tile ids to registered tile types through the map's tilesets
+ * Each problem is reported once, however often the tile is used
+ */
+function createTileResolver(tilesets: TiledTileset[], source: string, issues: string[]): (gid: number) => number | null {
+  const cache: Map<number, number | null> = new Map();
+  const tileNames = tileRegistry
+    .getAll()
+    .map(type => `'${type.name}'`)
+    .join(', ');
+
+  for (const tileset of tilesets) {
+    if (tileset.source !== undefined) {
+      issues.push(`${source}: external tileset '${tileset.source}' is not supported (embed it in the map)`);
+    }
+  }
+
+  // Highest first gid first, so the first tileset starting at or below a gid owns it
+  const ordered = tilesets
+    .filter(tileset => tileset.source === undefined && Number.isInteger(tileset.firstgid))
+    .sort((a, b) => b.firstgid - a.firstgid);
+
+  const lookup = (gid: number): number | null => {
+    const tileset = ordered.find(candidate => candidate.firstgid <= gid);
+    if (!tileset) {
+      // Tiles of an external tileset were already reported with the tileset
+      if (ordered.length === tilesets.length) issues.push(`${source}: tile id ${gid} belongs to no tileset`);
+      return null;
+    }
+
+    const where = `${source}: tileset '${tileset.name ?? tileset.firstgid}'`;
+    const localId = gid - tileset.firstgid;
+    if (tileset.tilecount !== undefined && localId >= tileset.tilecount) {
+      issues.push(`${source}: tile id ${gid} belongs to no tileset`);
+      return null;
+    }
+
+    const tile = tileset.tiles?.find(candidate => candidate.id === localId);
+    const typeName = tile?.type || tile?.class;
+    if (!typeName) {
+      issues.push(`${where}: tile ${localId} has no class (set it to one of ${tileNames})`);
+      return null;
+    }
+
+    const type = tileRegistry.getByName(typeName);
+    if (!type) {
+      issues.push(`${where}: tile ${localId} has unknown class '${typeName}' (expected one of ${tileNames})`);
+      return null;
+    }
+
+    return type.id;
+  };
+
+  return gid => {
+    if (!cache.has(gid)) cache.set(gid, lookup(gid));
+    return cache.get(gid)!;
+  };
+}
+
+function getProperty(owner: { properties?: TiledProperty[] }, name: string): unknown {
+  if (!Array.isArray(owner.properties)) return undefined;
+  return owner.properties.find(property => property.name === name)?.value;
+}
+
+/**
+ * Check if the player can walk from one tile to another
+ * (4-way over passable tiles that don't drown, like Dungeon's reachability)
+ */
+function canWalk(tiles: number[][], from: { x: number; y: number }, to: { x: number; y: number }): boolean {
+  const visited = tiles.map(row => row.map(() => false));
+  const stack: [number, number][] = [[Math.floor(from.x), Math.floor(from.y)]];
+
+  while (stack.length > 0) {
+    const [x, y] = stack.pop()!;
+    if (visited[y]?.[x] !== false) continue;
+
+    const type = tileRegistry.get(tiles[y][x]);
+    if (!type.passable || type.drowns) continue;
+    if (x === to.x && y === to.y) return true;
+
+    visited[y][x] = true;
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+
+  return false;
+}
+
+/**
+ * The room containing a point, or a single-tile room there if it's in none
+ * (added to the list, so spawning and objectives always have a room to refer to)
+ */
+function findRoom(rooms: Room[], point: { x: number; y: number }): Room {
+  const found = rooms.find(
+    room => point.x >= room.x && point.x < room.x + room.width && point.y >= room.y && point.y < room.y + room.height
+  );
+  if (found) return found;
+
+  const room = { x: Math.floor(point.x), y: Math.floor(point.y), width: 1, height: 1 };
+  rooms.push(room);
+  return room;
+}
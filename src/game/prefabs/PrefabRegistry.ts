@@ -0,0 +1,235 @@
+/**
+ * PrefabRegistry - Data-driven entity definitions
+ * Prefabs list components and field values, can inherit from a base prefab,
+ * and are validated against the component schemas when loaded
+ */
+
+import { normalizeField } from '../../core/ecs/ComponentSchemas';
+import { componentRegistry } from '../../core/ecs/ComponentRegistry';
+import type { ComponentTypeName } from '../../core/ecs/ComponentTypes';
+
+export type PrefabFields = Record<string, unknown>;
+
+/**
+ * Prefab as written in JSON
+ * A component set to null removes it from the inherited base
+ */
+export interface PrefabDefinition {
+  extends?: string;
+  abstract?: boolean;
+  components: Record<string, PrefabFields | null>;
+}
+
+/**
+ * Prefab with inheritance applied and fields normalized
+ */
+export interface ResolvedPrefab {
+  name: string;
+  abstract: boolean;
+  components: Map<ComponentTypeName, PrefabFields>;
+}
+
+/**
+ * Raised when prefab data is invalid; lists every problem found
+ */
+export class PrefabError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid prefab data:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'PrefabError';
+  }
+}
+
+export class PrefabRegistry {
+  private prefabs: Map<string, ResolvedPrefab> = new Map();
+
+  /**
+   * Parse and register prefabs from a JSON document ({ name: definition })
+   * @param source - Label used in error messages (e.g. file name)
+   */
+  loadJSON(json: string, source: string = 'prefabs'): void {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new PrefabError([`${source}: ${(error as Error).message}`]);
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new PrefabError([`${source}: expected an object mapping prefab names to definitions`]);
+    }
+
+    this.define(data as Record<string, PrefabDefinition>, source);
+  }
+
+  /**
+   * Register prefab definitions
+   * All definitions are validated first; nothing is registered if any is invalid
+   */
+  define(definitions: Record<string, PrefabDefinition>, source: string = 'prefabs'): void {
+    const issues: string[] = [];
+    const resolved: Map<string, ResolvedPrefab> = new Map();
+
+    const resolve = (name: string, chain: string[]): ResolvedPrefab | null => {
+      const done = resolved.get(name);
+      if (done) return done;
+
+      // Definitions in this batch take precedence over already registered prefabs
+      if (!Object.hasOwn(definitions, name)) return this.prefabs.get(name) ?? null;
+      const definition = definitions[name];
+
+      if (chain.includes(name)) {
+        issues.push(`${source}: inheritance cycle ${[...chain, name].join(' -> ')}`);
+        return null;
+      }
+
+      const prefab = this.resolveDefinition(name, definition, source, issues, base => {
+        const parent = resolve(base, [...chain, name]);
+        if (!parent && !Object.hasOwn(definitions, base) && !this.prefabs.has(base)) {
+          issues.push(`${source}: prefab '${name}' extends unknown prefab '${base}'`);
+        }
+        return parent;
+      });
+
+      if (prefab) resolved.set(name, prefab);
+      return prefab;
+    };
+
+    for (const name of Object.keys(definitions)) {
+      resolve(name, []);
+    }
+
+    for (const prefab of resolved.values()) {
+      if (!prefab.abstract) {
+        this.checkRequiredFields(prefab, source, issues);
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new PrefabError(Array.from(new Set(issues)));
+    }
+
+    for (const [name, prefab] of resolved) {
+      this.prefabs.set(name, prefab);
+    }
+  }
+
+  /**
+   * Get a resolved prefab by name
+   */
+  get(name: string): ResolvedPrefab {
+    const prefab = this.prefabs.get(name);
+    if (!prefab) {
+      throw new PrefabError([`unknown prefab '${name}'`]);
+    }
+    if (prefab.abstract) {
+      throw new PrefabError([`prefab '${name}' is abstract and cannot be instantiated`]);
+    }
+    return prefab;
+  }
+
+  /**
+   * Check if a prefab is registered
+   */
+  has(name: string): boolean {
+    return this.prefabs.has(name);
+  }
+
+  /**
+   * Get names of all instantiable prefabs
+   */
+  getNames(): string[] {
+    return Array.from(this.prefabs.values())
+      .filter(prefab => !prefab.abstract)
+      .map(prefab => prefab.name);
+  }
+
+  /**
+   * Merge a definition over its base and validate component fields
+   */
+  private resolveDefinition(
+    name: string,
+    definition: PrefabDefinition,
+    source: string,
+    issues: string[],
+    resolveBase: (base: string) => ResolvedPrefab | null
+  ): ResolvedPrefab | null {
+    const where = `${source}: prefab '${name}'`;
+
+    if (typeof definition !== 'object' || definition === null) {
+      issues.push(`${where}: expected an object`);
+      return null;
+    }
+
+    const components: Map<ComponentTypeName, PrefabFields> = new Map();
+
+    if (definition.extends !== undefined) {
+      const base = resolveBase(definition.extends);
+      if (!base) return null;
+      for (const [type, fields] of base.components) {
+        components.set(type, { ...fields });
+      }
+    }
+
+    if (typeof definition.components !== 'object' || definition.components === null) {
+      issues.push(`${where}: 'components' must be an object`);
+      return null;
+    }
+
+    for (const [type, fields] of Object.entries(definition.components)) {
+      if (!componentRegistry.has(type)) {
+        issues.push(`${where}: unknown component '${type}'`);
+        continue;
+      }
+
+      const schema = componentRegistry.getSchema(type);
+      if (!schema) {
+        issues.push(`${where}: component '${type}' has no schema and cannot be used in prefabs`);
+        continue;
+      }
+
+      if (fields === null) {
+        components.delete(type);
+        continue;
+      }
+
+      if (typeof fields !== 'object' || Array.isArray(fields)) {
+        issues.push(`${where}, component '${type}': expected an object of field values or null`);
+        continue;
+      }
+
+      const merged = { ...components.get(type) };
+
+      for (const [field, value] of Object.entries(fields)) {
+        const spec = Object.hasOwn(schema.fields, field) ? schema.fields[field] : undefined;
+        if (!spec) {
+          issues.push(`${where}, component '${type}': unknown field '${field}'`);
+          continue;
+        }
+
+        const result = normalizeField(spec.type, value);
+        if ('error' in result) {
+          issues.push(`${where}, field '${type}.${field}': ${result.error}`);
+          continue;
+        }
+        merged[field] = result.value;
+      }
+
+      components.set(type, merged);
+    }
+
+    return { name, abstract: definition.abstract === true, components };
+  }
+
+  /**
+   * Report required fields missing from a concrete prefab
+   */
+  private checkRequiredFields(prefab: ResolvedPrefab, source: string, issues: string[]): void {
+    for (const [type, fields] of prefab.components) {
+      for (const [field, spec] of Object.entries(componentRegistry.getSchema(type)!.fields)) {
+        if (spec.required && fields[field] === undefined) {
+          issues.push(`${source}: prefab '${prefab.name}', component '${type}': missing required field '${field}'`);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * ReplayFormat - Compact replay file layout and validation
+ * A replay is the run seed plus the player's input on every tick where it
+ * changed; re-simulating those inputs reproduces the run exactly. Key events
+ * are stored too, so a replay can detect when it no longer matches the
+ * recording (e.g. after a gameplay change).
+ */
+
+import { Entity } from '../../core/ecs/Entity';
+import type { GameEventType } from '../../core/events/GameEvents';
+import { isGeneratorName, type DungeonGeneratorName } from '../generation/GeneratorRegistry';
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * Input from this tick on: movement direction per axis and whether the player attacked
+ */
+export type ReplayInput = [tick: number, dx: number, dy: number, attack: 0 | 1];
+
+/**
+ * Event data with entities replaced by their ids
+ */
+export type ReplayEventData = Record<string, number | string | boolean | null>;
+
+export type ReplayEvent = [tick: number, type: GameEventType, data: ReplayEventData];
+
+export interface ReplayFile {
+  version: typeof REPLAY_VERSION;
+  seed: number;
+  options: {
+    width: number;
+    height: number;
+    tileSize: number;
+    /**
+     * Dungeon generator (the default generator when omitted)
+     */
+    generator?: DungeonGeneratorName;
+  };
+  /**
+   * Duration of one tick (in milliseconds)
+   */
+  tickMs: number;
+  /**
+   * Number of recorded ticks
+   */
+  length: number;
+  /**
+   * Event types that were recorded (and are checked on playback)
+   */
+  eventTypes: GameEventType[];
+  inputs: ReplayInput[];
+  events: ReplayEvent[];
+}
+
+/**
+ * Raised when a replay file is invalid; lists every problem found
+ */
+export class ReplayError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid replay:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ReplayError';
+  }
+}
+
+/**
+ * Reduce event data to plain values (entities become ids, other objects are dropped)
+ */
+export function compactEventData(data: object): ReplayEventData {
+  const compact: ReplayEventData = {};
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value instanceof Entity) {
+      compact[key] = value.id;
+    } else if (value === null || ['number', 'string', 'boolean'].includes(typeof value)) {
+      compact[key] = value;
+    }
+  }
+
+  return compact;
+}
+
+/**
+ * Serialize a replay without whitespace
+ */
+export function stringifyReplay(replay: ReplayFile): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse and validate a replay file
+ * @throws ReplayError listing every problem found
+ */
+export function parseReplay(json: string): ReplayFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new ReplayError([(error as Error).message]);
+  }
+
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new ReplayError(['expected a replay object']);
+  }
+
+  const replay = data as ReplayFile;
+  const issues: string[] = [];
+  const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+  const isPositive = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+  if (replay.version !== REPLAY_VERSION) {
+    issues.push(`unsupported version ${replay.version} (expected ${REPLAY_VERSION})`);
+  }
+  if (!isCount(replay.seed)) {
+    issues.push("'seed' must be a non-negative integer");
+  }
+  if (typeof replay.options !== 'object' || replay.options === null) {
+    issues.push("'options' must be an object");
+  } else {
+    for (const key of ['width', 'height', 'tileSize'] as const) {
+      if (!isPositive(replay.options[key])) issues.push(`'options.${key}' must be a positive number`);
+    }
+    if (replay.options.generator !== undefined && !isGeneratorName(replay.options.generator)) {
+      issues.push(`unknown dungeon generator '${replay.options.generator}'`);
+    }
+  }
+  if (!isPositive(replay.tickMs)) {
+    issues.push("'tickMs' must be a positive number");
+  }
+  if (!isCount(replay.length)) {
+    issues.push("'length' must be a non-negative integer");
+  }
+  if (!Array.isArray(replay.eventTypes) || replay.eventTypes.some(type => typeof type !== 'string')) {
+    issues.push("'eventTypes' must be an array of event names");
+  }
+
+  if (!Array.isArray(replay.inputs)) {
+    issues.push("'inputs' must be an array");
+  } else {
+    let previous = -1;
+    replay.inputs.forEach((input, index) => {
+      const valid =
+        Array.isArray(input) &&
+        input.length === 4 &&
+        isCount(input[0]) &&
+        [-1, 0, 1].includes(input[1]) &&
+        [-1, 0, 1].includes(input[2]) &&
+        (input[3] === 0 || input[3] === 1);
+
+      if (!valid) {
+        issues.push(`input ${index}: expected [tick, dx, dy, attack] with dx/dy in -1..1 and attack 0 or 1`);
+      } else if (input[0] <= previous || input[0] >= replay.length) {
+        issues.push(`input ${index}: tick ${input[0]} is out of order or past the end of the replay`);
+      } else {
+        previous = input[0];
+      }
+    });
+  }
+
+  if (!Array.isArray(replay.events)) {
+    issues.push("'events' must be an array");
+  } else {
+    replay.events.forEach((event, index) => {
+      const valid =
+        Array.isArray(event) &&
+        event.length === 3 &&
+        isCount(event[0]) &&
+        typeof event[1] === 'string' &&
+        typeof event[2] === 'object' &&
+        event[2] !== null;
+
+      if (!valid) issues.push(`event ${index}: expected [tick, type, data]`);
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ReplayError(issues);
+  }
+
+  return replay;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { GameSimulation } from '../GameSimulation';
+import { ReplayRecorder } from './ReplayRecorder';
+import { ReplayPlayer } from './ReplayPlayer';
+import { parseReplay } from './ReplayFormat';
+
+/**
+ * Record a run played by a simple bot: walk at the nearest enemy and attack it
+ * (the inputs only depend on the simulation, so the run is reproducible).
+ * The dungeon is small so the bot meets enemies without pathfinding.
+ */
+function record(seed: string, ticks: number): { sim: GameSimulation; json: string } {
+  const sim = new GameSimulation({ width: 480, height: 400, seed });
+  const recorder = new ReplayRecorder(sim);
+
+  for (let tick = 0; tick < ticks; tick++) {
+    const player = sim.world.getComponent(sim.getPlayer(), 'Transform');
+    const target = sim.world
+      .queryEntities('Enemy', 'Transform')
+      .map(enemy => sim.world.getComponent(enemy, 'Transform')!)
+      .sort((a, b) => distance(player, a) - distance(player, b))[0];
+
+    if (player && target) {
+      sim.setPlayerInput(Math.sign(target.x - player.x), Math.sign(target.y - player.y));
+      if (distance(player, target) < 60) sim.attack();
+    }
+    sim.step();
+  }
+
+  recorder.stop();
+  return { sim, json: recorder.toJSON() };
+}
+
+function distance(a: { x: number; y: number } | undefined, b: { x: number; y: number }): number {
+  return a ? Math.hypot(a.x - b.x, a.y - b.y) : Infinity;
+}
+
+describe('ReplayPlayer', () => {
+  it('re-simulates a recorded run without desyncs', () => {
+    const { sim, json } = record('replay', 600);
+    const player = new ReplayPlayer(parseReplay(json));
+
+    player.seek(player.getLength());
+
+    expect(parseReplay(json).events.length).toBeGreaterThan(0);
+    expect(player.getTick()).toBe(600);
+    expect(player.getDesyncs()).toEqual([]);
+    expect(player.getSimulation().saveRun()).toBe(sim.saveRun());
+  });
+
+  it('reaches the same state when seeking backwards', () => {
+    const { json } = record('seek', 300);
+    const player = new ReplayPlayer(parseReplay(json));
+
+    player.seek(200);
+    const snapshot = player.getSimulation().saveRun();
+    player.seek(300);
+    player.seek(200);
+
+    expect(player.getSimulation().saveRun()).toBe(snapshot);
+    expect(player.getDesyncs()).toEqual([]);
+  });
+
+  it('reports a desync when the recording was tampered with', () => {
+    const { json } = record('tamper', 300);
+    const replay = parseReplay(json);
+    replay.inputs = [];
+
+    const player = new ReplayPlayer(replay);
+    player.seek(player.getLength());
+
+    expect(player.getDesyncs().length).toBeGreaterThan(0);
+  });
+});
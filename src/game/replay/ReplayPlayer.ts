@@ -0,0 +1,203 @@
+/**
+ * ReplayPlayer - Re-simulates a recorded run
+ * Feeds the recorded input into a fresh simulation with the recorded seed, one
+ * tick at a time. Supports play/pause, playback speed and seeking; seeking
+ * backwards rebuilds the simulation and fast-forwards to the target tick.
+ * Key events are compared against the recording to report desyncs.
+ */
+
+import { SubscriptionGroup } from '../../core/events/EventBus';
+import { GameSimulation } from '../GameSimulation';
+import { compactEventData, type ReplayEvent, type ReplayFile } from './ReplayFormat';
+
+/**
+ * A tick whose key events differ from the recording
+ */
+export interface ReplayDesync {
+  tick: number;
+  expected: ReplayEvent[];
+  actual: ReplayEvent[];
+}
+
+export class ReplayPlayer {
+  private sim: GameSimulation;
+  private subscriptions = new SubscriptionGroup();
+  private expectedEvents: Map<number, ReplayEvent[]> = new Map();
+  private tickEvents: ReplayEvent[] = [];
+  private desyncs: Map<number, ReplayDesync> = new Map();
+  private nextInput = 0;
+  private playing = false;
+  private speed = 1;
+  private accumulator = 0;
+
+  /**
+   * @param setup - Called on every simulation the player creates (e.g. to add rendering systems)
+   */
+  constructor(
+    private replay: ReplayFile,
+    private setup?: (sim: GameSimulation) => void
+  ) {
+    for (const event of replay.events) {
+      const list = this.expectedEvents.get(event[0]) ?? [];
+      list.push(event);
+      this.expectedEvents.set(event[0], list);
+    }
+
+    this.sim = this.createSimulation();
+  }
+
+  getSimulation(): GameSimulation {
+    return this.sim;
+  }
+
+  getReplay(): ReplayFile {
+    return this.replay;
+  }
+
+  /**
+   * Get number of ticks played so far
+   */
+  getTick(): number {
+    return this.sim.world.getTickCount();
+  }
+
+  /**
+   * Get number of ticks in the replay
+   */
+  getLength(): number {
+    return this.replay.length;
+  }
+
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  play(): void {
+    // Restart from the beginning when played at the end
+    if (this.getTick() >= this.getLength()) this.seek(0);
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.accumulator = 0;
+  }
+
+  /**
+   * Set playback speed (1 = recorded speed)
+   */
+  setSpeed(speed: number): void {
+    this.speed = Math.max(0, speed);
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Advance playback by real time, then render
+   * @param delta - Time elapsed since last frame (in milliseconds)
+   */
+  update(delta: number): void {
+    if (this.playing) {
+      this.accumulator += delta * this.speed;
+
+      while (this.accumulator >= this.replay.tickMs && this.step()) {
+        this.accumulator -= this.replay.tickMs;
+      }
+
+      if (this.getTick() >= this.getLength()) this.pause();
+    }
+
+    // The world is paused, so this only runs the render phase
+    this.sim.update(delta);
+  }
+
+  /**
+   * Simulate the next recorded tick
+   * @returns False at the end of the replay
+   */
+  step(): boolean {
+    const tick = this.getTick();
+    if (tick >= this.getLength()) return false;
+
+    const inputs = this.replay.inputs;
+    while (this.nextInput < inputs.length && inputs[this.nextInput][0] <= tick) {
+      const [, dx, dy, attack] = inputs[this.nextInput++];
+      this.sim.setPlayerInput(dx, dy);
+      if (attack) this.sim.attack();
+    }
+
+    this.tickEvents = [];
+    this.sim.step();
+    this.checkEvents(tick);
+
+    return true;
+  }
+
+  /**
+   * Jump to a tick (clamped to the replay)
+   * Seeking backwards re-simulates from the start, so it takes longer on long replays
+   */
+  seek(tick: number): void {
+    const target = Math.max(0, Math.min(Math.floor(tick), this.getLength()));
+
+    if (target < this.getTick()) {
+      this.subscriptions.dispose();
+      this.sim.destroy();
+      this.sim = this.createSimulation();
+    }
+
+    while (this.getTick() < target && this.step()) {
+      // Fast-forward
+    }
+    this.accumulator = 0;
+  }
+
+  /**
+   * Get ticks played so far whose key events differ from the recording
+   */
+  getDesyncs(): ReplayDesync[] {
+    return Array.from(this.desyncs.values()).sort((a, b) => a.tick - b.tick);
+  }
+
+  destroy(): void {
+    this.subscriptions.dispose();
+    this.sim.destroy();
+  }
+
+  private createSimulation(): GameSimulation {
+    const sim = new GameSimulation({ ...this.replay.options, seed: this.replay.seed });
+    if (sim.world.getTickDuration() !== this.replay.tickMs) {
+      sim.world.setTickRate(1000 / this.replay.tickMs);
+    }
+
+    // Ticks are driven by step(); world updates only render
+    sim.world.setPaused(true);
+    this.nextInput = 0;
+
+    for (const type of this.replay.eventTypes) {
+      this.subscriptions.add(
+        sim.world.events.on(
+          type,
+          data => this.tickEvents.push([sim.world.getTickCount(), type, compactEventData(data)]),
+          { priority: Number.MIN_SAFE_INTEGER }
+        )
+      );
+    }
+
+    this.setup?.(sim);
+    return sim;
+  }
+
+  private checkEvents(tick: number): void {
+    const expected = this.expectedEvents.get(tick) ?? [];
+    const actual = this.tickEvents;
+
+    if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+      this.desyncs.set(tick, { tick, expected, actual });
+    } else {
+      this.desyncs.delete(tick);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { GameSimulation } from '../GameSimulation';
+import { ReplayRecorder } from './ReplayRecorder';
+import { ReplayPlayer } from './ReplayPlayer';
+
+/**
+ * Walk in a square for a number of ticks
+ */
+function walk(sim: GameSimulation, ticks: number): void {
+  for (let i = 0; i < ticks; i++) {
+    const side = Math.floor(sim.world.getTickCount() / 30) % 4;
+    sim.setPlayerInput([1, 0, -1, 0][side], [0, 1, 0, -1][side]);
+    sim.step();
+  }
+}
+
+describe('ReplayRecorder', () => {
+  it('records input only on the ticks where it changed', () => {
+    const sim = new GameSimulation({ seed: 'inputs' });
+    const recorder = new ReplayRecorder(sim);
+
+    walk(sim, 120);
+    const replay = recorder.toReplay();
+
+    expect(replay.length).toBe(120);
+    expect(replay.inputs.map(([tick]) => tick)).toEqual([0, 30, 60, 90]);
+  });
+
+  it('stops when a run is loaded into its simulation, keeping the ticks played before', () => {
+    const sim = new GameSimulation({ seed: 'before' });
+    const recorder = new ReplayRecorder(sim);
+    walk(sim, 60);
+    const save = new GameSimulation({ seed: 'saved' }).saveRun();
+
+    walk(sim, 30);
+    sim.loadRun(save);
+    walk(sim, 30);
+
+    const replay = recorder.toReplay();
+    expect(recorder.isRecording()).toBe(false);
+    expect(replay.length).toBe(90);
+    expect(replay.seed).toBe(new GameSimulation({ seed: 'before' }).getSeed());
+    expect(replay.inputs.every(([tick]) => tick < 90)).toBe(true);
+
+    const player = new ReplayPlayer(replay);
+    player.seek(player.getLength());
+    expect(player.getDesyncs()).toEqual([]);
+  });
+
+  it('refuses to record a simulation that has already run', () => {
+    const sim = new GameSimulation({ seed: 'late' });
+    sim.step();
+
+    expect(() => new ReplayRecorder(sim)).toThrow(/first tick/);
+  });
+});
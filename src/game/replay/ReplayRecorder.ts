@@ -0,0 +1,132 @@
+/**
+ * ReplayRecorder - Records a run as it is played
+ * Captures the seed, the player input on every tick where it changed and the
+ * key gameplay events, for saving as a replay file.
+ */
+
+import { SubscriptionGroup } from '../../core/events/EventBus';
+import type { GameEventType } from '../../core/events/GameEvents';
+import type { GameSimulation } from '../GameSimulation';
+import type { DungeonGeneratorName } from '../generation/GeneratorRegistry';
+import type { PlayerInput } from '../systems/PlayerInputSystem';
+import {
+  REPLAY_VERSION,
+  compactEventData,
+  stringifyReplay,
+  type ReplayEvent,
+  type ReplayFile,
+  type ReplayInput
+} from './ReplayFormat';
+
+/**
+ * Events recorded by default - enough to notice when a replay diverges
+ */
+export const DEFAULT_REPLAY_EVENTS: readonly GameEventType[] = [
+  'damage:dealt',
+  'enemy:killed',
+  'player:levelup',
+  'entity:died',
+  'floor:entered'
+];
+
+export class ReplayRecorder {
+  private inputs: ReplayInput[] = [];
+  private events: ReplayEvent[] = [];
+  private subscriptions = new SubscriptionGroup();
+  private lastDx = 0;
+  private lastDy = 0;
+  private seed: number;
+
+  /**
+   * Tick recording stopped at (null while recording)
+   */
+  private stoppedAt: number | null = null;
+
+  /**
+   * @throws Error if the simulation has already run (replays start at tick 0)
+   * or uses a custom dungeon generator or hand-authored map (only built-in generators can be recreated)
+   */
+  constructor(
+    private sim: GameSimulation,
+    private eventTypes: readonly GameEventType[] = DEFAULT_REPLAY_EVENTS
+  ) {
+    if (sim.world.getTickCount() !== 0) {
+      throw new Error('Replays must be recorded from the first tick of a simulation');
+    }
+    if (typeof sim.getOptions().generator !== 'string' || sim.getOptions().map) {
+      throw new Error('Replays can only be recorded with a built-in dungeon generator');
+    }
+
+    this.seed = sim.getSeed();
+    this.subscriptions.add(sim.getInput().onInput(this.handleInput));
+    // A loaded run can't be recreated from the recording, so keep only what was played before it
+    this.subscriptions.add(sim.onRunLoaded(() => this.stop()));
+
+    // Record before any other handler can stop propagation
+    for (const type of eventTypes) {
+      this.subscriptions.add(
+        sim.world.events.on(
+          type,
+          data => this.events.push([sim.world.getTickCount(), type, compactEventData(data)]),
+          { priority: Number.MIN_SAFE_INTEGER }
+        )
+      );
+    }
+  }
+
+  /**
+   * Get number of ticks recorded so far
+   */
+  getLength(): number {
+    return this.stoppedAt ?? this.sim.world.getTickCount();
+  }
+
+  /**
+   * Check if ticks are still being recorded
+   */
+  isRecording(): boolean {
+    return this.stoppedAt === null;
+  }
+
+  /**
+   * Get the recording so far
+   */
+  toReplay(): ReplayFile {
+    const { width, height, tileSize, generator } = this.sim.getOptions();
+
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      options: { width, height, tileSize, generator: generator as DungeonGeneratorName },
+      tickMs: this.sim.world.getTickDuration(),
+      length: this.getLength(),
+      eventTypes: [...this.eventTypes],
+      inputs: [...this.inputs],
+      events: [...this.events]
+    };
+  }
+
+  /**
+   * Get the recording so far as a replay file
+   */
+  toJSON(): string {
+    return stringifyReplay(this.toReplay());
+  }
+
+  /**
+   * Stop recording (the recording keeps the ticks played so far)
+   */
+  stop(): void {
+    this.stoppedAt ??= this.sim.world.getTickCount();
+    this.subscriptions.dispose();
+  }
+
+  private handleInput = (tick: number, input: Readonly<PlayerInput>): void => {
+    // Movement holds until it changes; attacks only last one tick
+    if (input.dx === this.lastDx && input.dy === this.lastDy && !input.attack) return;
+
+    this.inputs.push([tick, input.dx, input.dy, input.attack ? 1 : 0]);
+    this.lastDx = input.dx;
+    this.lastDy = input.dy;
+  };
+}
@@ -1,27 +1,33 @@
 /**
  * AISystem - Handles enemy AI behavior
  * Processes entities with AI, Transform, and Movement components
+ * Enemies only notice the player within aggro range and with a clear line of sight
  */
 
 import { System } from '../../core/ecs/System';
+import { MovementSystem } from './MovementSystem';
+import type { EntityId } from '../../core/ecs/Entity';
 import type { Dungeon } from '../Dungeon';
-import { eventBus } from '../../core/events/EventBus';
+import { hasLineOfSight } from '../vision/FieldOfView';
+import type { TransformComponent } from '../../core/ecs/ComponentTypes';
 
 export class AISystem extends System {
   readonly requiredComponents = ['AI', 'Transform', 'Movement'] as const;
+  readonly runsBefore = [MovementSystem];
 
-  private playerEntityId: number | null = null;
+  private playerEntityId: EntityId | null = null;
+  private dungeon: Dungeon | null = null;
 
-  setDungeon(_dungeon: Dungeon): void {
-    // Dungeon reference not needed for now (collision handled by MovementSystem)
+  setDungeon(dungeon: Dungeon): void {
+    this.dungeon = dungeon;
   }
 
-  setPlayerEntity(playerId: number): void {
+  setPlayerEntity(playerId: EntityId): void {
     this.playerEntityId = playerId;
   }
 
   update(_delta: number): void {
-    if (this.playerEntityId === null) return;
+    if (this.playerEntityId === null || !this.world.isAlive(this.playerEntityId)) return;
 
     const player = this.world.getEntity(this.playerEntityId);
     if (!player) return;
@@ -48,8 +54,8 @@ export class AISystem extends System {
       movement.velocityX = 0;
       movement.velocityY = 0;
 
-      // Check if player is in aggro range
-      if (distance < ai.aggroRange) {
+      // Check if player is in aggro range and in sight
+      if (distance < ai.aggroRange && this.canSee(transform, playerTransform)) {
         // Check if in attack range
         if (combat && distance <= combat.attackRange) {
           // Attack player
@@ -62,6 +68,22 @@ export class AISystem extends System {
     }
   }
 
+  /**
+   * Check if walls or doors block the line between two entities' centers
+   */
+  private canSee(from: TransformComponent, to: TransformComponent): boolean {
+    if (!this.dungeon) return true;
+
+    const tileSize = this.dungeon.getTileSize();
+    return hasLineOfSight(
+      this.dungeon,
+      Math.floor((from.x + from.width / 2) / tileSize),
+      Math.floor((from.y + from.height / 2) / tileSize),
+      Math.floor((to.x + to.width / 2) / tileSize),
+      Math.floor((to.y + to.height / 2) / tileSize)
+    );
+  }
+
   /**
    * Chase behavior - move towards target
    */
@@ -81,7 +103,7 @@ export class AISystem extends System {
    * Attack target (check cooldown and deal damage)
    */
   private attackTarget(entity: any, target: any, combat: any): void {
-    const now = Date.now();
+    const now = this.world.getTime();
     if (now - combat.lastAttackTime > combat.attackCooldown) {
       // Get player health
       const targetHealth = this.world.getComponent(target, 'Health');
@@ -100,13 +122,13 @@ export class AISystem extends System {
         combat.lastAttackTime = now;
 
         // Emit events
-        eventBus.emit('damage:dealt', {
+        this.world.events.emit('damage:dealt', {
           attacker: entity,
           target: target,
           damage: actualDamage
         });
 
-        eventBus.emit('health:changed', {
+        this.world.events.emit('health:changed', {
           entity: target,
           health: targetHealth.current,
           maxHealth: targetHealth.max
@@ -114,7 +136,7 @@ export class AISystem extends System {
 
         // Check if player died
         if (targetHealth.current === 0) {
-          eventBus.emit('entity:died', { entity: target });
+          this.world.events.emit('entity:died', { entity: target });
         }
       }
     }
@@ -4,10 +4,10 @@
  */
 
 import { System } from '../../core/ecs/System';
-import { eventBus } from '../../core/events/EventBus';
 
 export class AnimationSystem extends System {
   readonly requiredComponents = ['Animation'] as const;
+  readonly phase = 'post-simulation';
 
   update(delta: number): void {
     const entities = this.getEntities();
@@ -99,7 +99,7 @@ export class AnimationSystem extends System {
       animation.frameIndex = 0;
 
       // Emit state change event (for future use with actual sprite animations)
-      eventBus.emit('ui:update', {
+      this.world.events.emit('ui:update', {
         type: 'stats',
         data: { animationState: newState }
       });
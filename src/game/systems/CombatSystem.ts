@@ -4,7 +4,6 @@
  */
 
 import { System } from '../../core/ecs/System';
-import { eventBus } from '../../core/events/EventBus';
 
 export class CombatSystem extends System {
   readonly requiredComponents = ['Transform', 'Combat'] as const;
@@ -40,8 +39,8 @@ export class CombatSystem extends System {
 
     if (!attackerTransform || !attackerCombat) return;
 
-    // Check cooldown
-    const now = Date.now();
+    // Check cooldown (simulation time)
+    const now = this.world.getTime();
     if (now - attackerCombat.lastAttackTime < attackerCombat.attackCooldown) {
       return;
     }
@@ -65,7 +64,7 @@ export class CombatSystem extends System {
       if (this.isInAttackRange(attackerTransform, attackerMovement?.direction || 'down', targetTransform, attackerCombat.attackRange)) {
         // Calculate damage
         const baseDamage = attackerCombat.damage;
-        const randomVariance = Math.floor(Math.random() * 5);
+        const randomVariance = this.world.random.get('combat').nextInt(0, 4);
         const totalDamage = baseDamage + randomVariance;
 
         // Apply damage
@@ -91,14 +90,14 @@ export class CombatSystem extends System {
     targetHealth.current = Math.max(0, targetHealth.current - actualDamage);
 
     // Emit damage dealt event
-    eventBus.emit('damage:dealt', {
+    this.world.events.emit('damage:dealt', {
       attacker,
       target,
       damage: actualDamage
     });
 
     // Emit health changed event
-    eventBus.emit('health:changed', {
+    this.world.events.emit('health:changed', {
       entity: target,
       health: targetHealth.current,
       maxHealth: targetHealth.max
@@ -106,7 +105,7 @@ export class CombatSystem extends System {
 
     // Check if target died
     if (targetHealth.current === 0) {
-      eventBus.emit('entity:died', { entity: target });
+      this.world.events.emit('entity:died', { entity: target });
     }
   }
 
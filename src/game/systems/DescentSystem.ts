@@ -0,0 +1,47 @@
+/**
+ * DescentSystem - Takes the player down to the next floor after reaching the stairs
+ * The descent replaces the whole floor, so it waits for the start of the next
+ * tick: by then the events of the tick the stairs were reached in (damage and
+ * kills on the old floor) have been delivered and the command buffer applied.
+ */
+
+import { System } from '../../core/ecs/System';
+import type { World } from '../../core/ecs/World';
+import { PlayerInputSystem } from './PlayerInputSystem';
+
+export class DescentSystem extends System {
+  readonly requiredComponents = ['Player'] as const;
+  readonly phase = 'input';
+  readonly runsBefore = [PlayerInputSystem];
+
+  private pending = false;
+
+  /**
+   * @param descend - Replaces the current floor with the next one
+   */
+  constructor(private descend: () => void) {
+    super();
+  }
+
+  init(world: World): void {
+    super.init(world);
+
+    this.listen('stairs:reached', ({ entity }) => {
+      if (this.world.hasComponent(entity, 'Player')) this.pending = true;
+    });
+  }
+
+  /**
+   * Forget a descent that hasn't happened yet (e.g. when another run is loaded)
+   */
+  cancel(): void {
+    this.pending = false;
+  }
+
+  update(_delta: number): void {
+    if (!this.pending) return;
+
+    this.pending = false;
+    this.descend();
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { World } from '../../core/ecs/World';
+import { HealthComponent, TransformComponent } from '../../core/ecs/ComponentTypes';
+import { Random } from '../../core/utils/Random';
+import { Dungeon } from '../Dungeon';
+import type { DungeonGenerator } from '../generation/DungeonGenerator';
+import { TILE_FLOOR, TILE_LAVA, TILE_PIT, TILE_SPIKES } from '../tiles/TileRegistry';
+import { HazardSystem } from './HazardSystem';
+
+const TILE_SIZE = 40;
+const STRIP = [TILE_FLOOR, TILE_FLOOR, TILE_LAVA, TILE_SPIKES, TILE_PIT];
+
+/**
+ * One row of tiles (stairs on the first) with a HazardSystem pointed at it
+ */
+function createWorld(): { world: World; hazards: HazardSystem } {
+  const room = { x: 0, y: 0, width: STRIP.length, height: 1 };
+  const generator: DungeonGenerator = {
+    generate: () => ({ tiles: [[...STRIP]], rooms: [room], spawnRoom: room, exitRoom: room, stairs: { x: 0, y: 0 } })
+  };
+
+  const world = new World();
+  const hazards = new HazardSystem();
+  world.addSystem(hazards);
+  hazards.setDungeon(new Dungeon(STRIP.length * TILE_SIZE, TILE_SIZE, TILE_SIZE, new Random(1), generator));
+  return { world, hazards };
+}
+
+/**
+ * Add an entity centered on a tile of the strip
+ */
+function addEntity(world: World, tileX: number, health = 100) {
+  const entity = world.createEntity();
+  world.addComponent(entity, new TransformComponent(tileX * TILE_SIZE + 10, 10, 20, 20));
+  world.addComponent(entity, new HealthComponent(health, health));
+  return entity;
+}
+
+describe('HazardSystem', () => {
+  it('deals damage per second on damaging tiles, carrying fractions between ticks', () => {
+    const { world } = createWorld();
+    const onFloor = addEntity(world, 1);
+    const onLava = addEntity(world, 2);
+    const onSpikes = addEntity(world, 3);
+
+    // 10 ticks of 100 ms: lava owes 2.5 damage per tick, spikes 1
+    for (let i = 0; i < 10; i++) world.tick(100);
+
+    expect(world.getComponent(onFloor, 'Health')?.current).toBe(100);
+    expect(world.getComponent(onLava, 'Health')?.current).toBe(75);
+    expect(world.getComponent(onSpikes, 'Health')?.current).toBe(90);
+  });
+
+  it('kills entities over a deadly tile at once', () => {
+    const { world } = createWorld();
+    const entity = addEntity(world, 4);
+    const died: number[] = [];
+    world.events.on('entity:died', ({ entity }) => died.push(entity.id));
+
+    world.tick(100);
+
+    expect(world.getComponent(entity, 'Health')?.current).toBe(0);
+    expect(died).toEqual([entity.id]);
+  });
+
+  it('reports the tile that dealt the damage', () => {
+    const { world } = createWorld();
+    addEntity(world, 2);
+    const tiles: string[] = [];
+    world.events.on('hazard:damaged', ({ tile }) => tiles.push(tile));
+
+    world.tick(1000);
+
+    expect(tiles).toEqual(['lava']);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * HazardSystem - Damage from the ground
+ * Entities whose center is over a damaging tile (lava, spikes) lose health
+ * over time; over a deadly tile (pits) they die at once.
+ */
+
+import { System } from '../../core/ecs/System';
+import type { Entity, EntityId } from '../../core/ecs/Entity';
+import type { Dungeon } from '../Dungeon';
+import type { TileType } from '../tiles/TileRegistry';
+import { MovementSystem } from './MovementSystem';
+import { HealthSystem } from './HealthSystem';
+
+export class HazardSystem extends System {
+  readonly requiredComponents = ['Transform', 'Health'] as const;
+  readonly runsAfter = [MovementSystem];
+  readonly runsBefore = [HealthSystem];
+
+  private dungeon: Dungeon | null = null;
+
+  /**
+   * Damage owed but not yet applied (health is whole numbers)
+   */
+  private pending: Map<EntityId, number> = new Map();
+
+  setDungeon(dungeon: Dungeon): void {
+    this.dungeon = dungeon;
+    this.pending.clear();
+  }
+
+  update(delta: number): void {
+    if (!this.dungeon) return;
+
+    for (const entity of this.getEntities()) {
+      const transform = this.world.getComponent(entity, 'Transform');
+      const health = this.world.getComponent(entity, 'Health');
+      if (!transform || !health || health.current <= 0) continue;
+
+      const tile = this.dungeon.getTileTypeAt(transform.x + transform.width / 2, transform.y + transform.height / 2);
+
+      if (tile.drowns) {
+        this.pending.delete(entity.id);
+        this.applyDamage(entity, tile, health.current);
+      } else if (tile.damagePerSecond > 0) {
+        const owed = (this.pending.get(entity.id) ?? 0) + (tile.damagePerSecond * delta) / 1000;
+        const damage = Math.floor(owed);
+        this.pending.set(entity.id, owed - damage);
+        if (damage > 0) this.applyDamage(entity, tile, damage);
+      } else {
+        this.pending.delete(entity.id);
+      }
+    }
+  }
+
+  private applyDamage(entity: Entity, tile: TileType, damage: number): void {
+    const health = this.world.getComponent(entity, 'Health');
+    if (!health) return;
+
+    health.current = Math.max(0, health.current - damage);
+
+    this.world.events.emit('hazard:damaged', { entity, tile: tile.name, damage });
+    this.world.events.emit('health:changed', {
+      entity,
+      health: health.current,
+      maxHealth: health.max
+    });
+
+    if (health.current === 0) {
+      this.pending.delete(entity.id);
+      this.world.events.emit('entity:died', { entity });
+    }
+  }
+}
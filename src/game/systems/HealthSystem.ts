@@ -3,10 +3,12 @@
  */
 
 import { System } from '../../core/ecs/System';
-import { eventBus } from '../../core/events/EventBus';
+import { CombatSystem } from './CombatSystem';
+import { AISystem } from './AISystem';
 
 export class HealthSystem extends System {
   readonly requiredComponents = ['Health'] as const;
+  readonly runsAfter = [CombatSystem, AISystem];
 
   update(_delta: number): void {
     const entities = this.getEntities();
@@ -35,7 +37,7 @@ export class HealthSystem extends System {
 
       if (player) {
         // Emit enemy killed event with exp reward
-        eventBus.emit('enemy:killed', {
+        this.world.events.emit('enemy:killed', {
           enemy: entity,
           killer: player,
           expReward: enemyComponent.expReward
@@ -43,8 +45,8 @@ export class HealthSystem extends System {
       }
     }
 
-    // Mark entity as inactive (will be cleaned up by GameScene)
-    entity.active = false;
+    // Remove at the next sync point (deactivated right away)
+    this.world.commands.destroyEntity(entity);
   }
 
   /**
@@ -60,7 +62,7 @@ export class HealthSystem extends System {
     health.current = Math.min(health.max, health.current + amount);
 
     // Emit health changed event
-    eventBus.emit('health:changed', {
+    this.world.events.emit('health:changed', {
       entity,
       health: health.current,
       maxHealth: health.max
@@ -81,7 +83,7 @@ export class HealthSystem extends System {
     health.current = newMax;
 
     // Emit health changed event
-    eventBus.emit('health:changed', {
+    this.world.events.emit('health:changed', {
       entity,
       health: health.current,
       maxHealth: health.max
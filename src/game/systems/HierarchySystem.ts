@@ -0,0 +1,184 @@
+/**
+ * HierarchySystem - Parent/child attachments
+ * Places children at their parent's position plus a local offset (parents are
+ * resolved before their children) and destroys children with their parent:
+ * a World destroy cascade removes the whole subtree in the same call, so
+ * children never outlive their parent by a tick.
+ */
+
+import { System } from '../../core/ecs/System';
+import type { Entity, EntityId } from '../../core/ecs/Entity';
+import { HierarchyComponent } from '../components/HierarchyComponent';
+import type { World } from '../../core/ecs/World';
+
+export class HierarchySystem extends System {
+  readonly requiredComponents = ['Hierarchy', 'Transform'] as const;
+  readonly phase = 'post-simulation';
+
+  /**
+   * Attached (active) children by parent ID
+   */
+  private children: Map<EntityId, Set<EntityId>> = new Map();
+  private cleanup: (() => void)[] = [];
+
+  init(world: World): void {
+    super.init(world);
+
+    // Indexed on Hierarchy alone: children without a Transform still follow their parent's lifetime
+    const attached = world.getQuery('Hierarchy');
+    for (const entity of attached.entities) {
+      this.index(entity.id);
+    }
+    this.cleanup.push(
+      attached.onEnter(entity => this.index(entity.id)),
+      attached.onLeave(entity => this.unindex(entity.id)),
+      world.addDestroyCascade(parentId => this.children.get(parentId) ?? [])
+    );
+  }
+
+  update(_delta: number): void {
+    const resolved: Set<EntityId> = new Set();
+
+    for (const entity of this.getEntities()) {
+      this.resolve(entity.id, resolved);
+    }
+  }
+
+  /**
+   * Attach an entity to a parent at a local offset
+   * Re-attaching an attached entity moves it to the new parent
+   * @throws Error if either entity is missing or the attachment would form a cycle
+   */
+  attach(child: Entity | EntityId, parent: Entity | EntityId, offsetX: number = 0, offsetY: number = 0): void {
+    const childId = typeof child === 'number' ? child : child.id;
+    const parentId = typeof parent === 'number' ? parent : parent.id;
+
+    if (!this.world.isAlive(childId) || !this.world.isAlive(parentId)) {
+      throw new Error(`Cannot attach entity ${childId} to ${parentId}: entity not found`);
+    }
+    if (childId === parentId || this.isDescendant(parentId, childId)) {
+      throw new Error(`Cannot attach entity ${childId} to ${parentId}: would create a cycle`);
+    }
+
+    const hierarchy = this.world.getComponent(childId, 'Hierarchy');
+    if (hierarchy) {
+      this.unindex(childId);
+      hierarchy.parentId = parentId;
+      hierarchy.offsetX = offsetX;
+      hierarchy.offsetY = offsetY;
+      this.index(childId);
+    } else {
+      this.world.addComponent(childId, new HierarchyComponent(parentId, offsetX, offsetY));
+    }
+
+    // Snap into place so the child doesn't interpolate in from its old position
+    this.resolve(childId, new Set());
+    const transform = this.world.getComponent(childId, 'Transform');
+    if (transform) {
+      transform.prevX = transform.x;
+      transform.prevY = transform.y;
+    }
+  }
+
+  /**
+   * Detach an entity from its parent, keeping its current position
+   */
+  detach(child: Entity | EntityId): void {
+    this.world.removeComponent(child, 'Hierarchy');
+  }
+
+  /**
+   * Get the parent of an attached entity
+   */
+  getParent(child: Entity | EntityId): Entity | undefined {
+    const parentId = this.world.getComponent(child, 'Hierarchy')?.parentId;
+    return parentId === undefined || parentId === null ? undefined : this.world.getEntity(parentId);
+  }
+
+  /**
+   * Get the direct children of an entity
+   * Children already queued for destruction (inactive) are left out
+   */
+  getChildren(parent: Entity | EntityId): Entity[] {
+    const parentId = typeof parent === 'number' ? parent : parent.id;
+    const childIds = this.children.get(parentId) ?? [];
+
+    return Array.from(childIds, id => this.world.getEntity(id)).filter(
+      (entity): entity is Entity => entity !== undefined
+    );
+  }
+
+  destroy(): void {
+    for (const unsubscribe of this.cleanup) {
+      unsubscribe();
+    }
+    this.cleanup = [];
+    this.children.clear();
+    super.destroy();
+  }
+
+  /**
+   * Record an entity under its current parent
+   */
+  private index(childId: EntityId): void {
+    const parentId = this.world.getComponent(childId, 'Hierarchy')?.parentId ?? null;
+    if (parentId === null) return;
+
+    let siblings = this.children.get(parentId);
+    if (!siblings) {
+      siblings = new Set();
+      this.children.set(parentId, siblings);
+    }
+    siblings.add(childId);
+  }
+
+  /**
+   * Drop an entity from its current parent's children
+   */
+  private unindex(childId: EntityId): void {
+    const parentId = this.world.getComponent(childId, 'Hierarchy')?.parentId ?? null;
+    if (parentId === null) return;
+
+    const siblings = this.children.get(parentId);
+    siblings?.delete(childId);
+    if (siblings?.size === 0) this.children.delete(parentId);
+  }
+
+  /**
+   * Compute an entity's world position from its parent chain
+   * @param resolved - Entities already placed this pass
+   */
+  private resolve(entityId: EntityId, resolved: Set<EntityId>): void {
+    if (resolved.has(entityId)) return;
+    resolved.add(entityId);
+
+    const hierarchy = this.world.getComponent(entityId, 'Hierarchy');
+    const transform = this.world.getComponent(entityId, 'Transform');
+    if (!hierarchy || !transform || hierarchy.parentId === null) return;
+
+    // Place the parent first if it is attached itself
+    this.resolve(hierarchy.parentId, resolved);
+
+    const parentTransform = this.world.getComponent(hierarchy.parentId, 'Transform');
+    if (!parentTransform) return;
+
+    transform.x = parentTransform.x + hierarchy.offsetX;
+    transform.y = parentTransform.y + hierarchy.offsetY;
+  }
+
+  /**
+   * Check if an entity is somewhere below an ancestor
+   */
+  private isDescendant(entityId: EntityId, ancestorId: EntityId): boolean {
+    const visited: Set<EntityId> = new Set();
+    let current = this.world.getComponent(entityId, 'Hierarchy')?.parentId ?? null;
+
+    while (current !== null && !visited.has(current)) {
+      if (current === ancestorId) return true;
+      visited.add(current);
+      current = this.world.getComponent(current, 'Hierarchy')?.parentId ?? null;
+    }
+
+    return false;
+  }
+}
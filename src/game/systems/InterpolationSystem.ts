@@ -0,0 +1,21 @@
+/**
+ * InterpolationSystem - Records positions at the start of each tick
+ * Lets rendering blend between the previous and current tick
+ */
+
+import { System } from '../../core/ecs/System';
+
+export class InterpolationSystem extends System {
+  readonly requiredComponents = ['Transform'] as const;
+  readonly phase = 'input';
+
+  update(_delta: number): void {
+    for (const entity of this.getEntities()) {
+      const transform = this.world.getComponent(entity, 'Transform');
+      if (!transform) continue;
+
+      transform.prevX = transform.x;
+      transform.prevY = transform.y;
+    }
+  }
+}
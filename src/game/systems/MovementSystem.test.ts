@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { World } from '../../core/ecs/World';
+import { MovementComponent, TransformComponent } from '../../core/ecs/ComponentTypes';
+import { Random } from '../../core/utils/Random';
+import { Dungeon } from '../Dungeon';
+import type { DungeonGenerator } from '../generation/DungeonGenerator';
+import { TILE_FLOOR, TILE_LAVA, TILE_WALL, TILE_WATER, tileRegistry } from '../tiles/TileRegistry';
+import { MovementSystem } from './MovementSystem';
+
+const TILE_SIZE = 40;
+const TICK_MS = 1000 / 60;
+const STRIP = [TILE_FLOOR, TILE_FLOOR, TILE_WATER, TILE_LAVA, TILE_FLOOR, TILE_WALL];
+
+/**
+ * One row of tiles (stairs on the first) with a MovementSystem pointed at it
+ */
+function createWorld(): World {
+  const room = { x: 0, y: 0, width: STRIP.length, height: 1 };
+  const generator: DungeonGenerator = {
+    generate: () => ({ tiles: [[...STRIP]], rooms: [room], spawnRoom: room, exitRoom: room, stairs: { x: 0, y: 0 } })
+  };
+
+  const world = new World();
+  const movement = new MovementSystem();
+  world.addSystem(movement);
+  movement.setDungeon(new Dungeon(STRIP.length * TILE_SIZE, TILE_SIZE, TILE_SIZE, new Random(1), generator));
+  return world;
+}
+
+/**
+ * Start an entity walking right from the center of a tile, and return how far it got in one tick
+ */
+function moveOnce(tileX: number): number {
+  const world = createWorld();
+  const entity = world.createEntity();
+  const transform = new TransformComponent(tileX * TILE_SIZE + 10, 10, 20, 20);
+  world.addComponent(entity, transform);
+  world.addComponent(entity, new MovementComponent(4, 'right', 1, 0));
+
+  world.tick(TICK_MS);
+  return transform.x - (tileX * TILE_SIZE + 10);
+}
+
+describe('MovementSystem', () => {
+  it('divides speed by the movement cost of the tile underfoot', () => {
+    expect(moveOnce(1)).toBeCloseTo(4);
+    expect(moveOnce(2)).toBeCloseTo(4 / tileRegistry.get(TILE_WATER).movementCost);
+    expect(moveOnce(3)).toBeCloseTo(4 / tileRegistry.get(TILE_LAVA).movementCost);
+  });
+
+  it('stops at impassable tiles', () => {
+    const world = createWorld();
+    const entity = world.createEntity();
+    const transform = new TransformComponent(4 * TILE_SIZE + 10, 10, 20, 20);
+    world.addComponent(entity, transform);
+    world.addComponent(entity, new MovementComponent(8, 'right', 1, 0));
+
+    for (let i = 0; i < 10; i++) world.tick(TICK_MS);
+
+    expect(transform.x + transform.width).toBeLessThan(5 * TILE_SIZE);
+  });
+});
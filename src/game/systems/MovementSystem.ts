@@ -1,22 +1,30 @@
 /**
  * MovementSystem - Handles entity movement
- * Processes entities with Transform and Movement components
+ * Processes entities with Transform and Movement components.
+ * Impassable tiles block movement; other tiles divide speed by their movement cost.
  */
 
 import { System } from '../../core/ecs/System';
+import type { TransformComponent } from '../../core/ecs/ComponentTypes';
 import type { Dungeon } from '../Dungeon';
 
 export class MovementSystem extends System {
   readonly requiredComponents = ['Transform', 'Movement'] as const;
 
+  /**
+   * Movement speed is expressed in pixels per 1/60 s
+   */
+  private static readonly SPEED_REFERENCE_MS = 1000 / 60;
+
   private dungeon: Dungeon | null = null;
 
   setDungeon(dungeon: Dungeon): void {
     this.dungeon = dungeon;
   }
 
-  update(_delta: number): void {
+  update(delta: number): void {
     const entities = this.getEntities();
+    const scale = delta / MovementSystem.SPEED_REFERENCE_MS;
 
     for (const entity of entities) {
       const transform = this.world.getComponent(entity, 'Transform');
@@ -26,8 +34,9 @@ export class MovementSystem extends System {
 
       // Apply velocity if set
       if (movement.velocityX !== 0 || movement.velocityY !== 0) {
-        const newX = transform.x + movement.velocityX * movement.speed;
-        const newY = transform.y + movement.velocityY * movement.speed;
+        const speed = movement.speed * this.getSpeedFactor(transform);
+        const newX = transform.x + movement.velocityX * speed * scale;
+        const newY = transform.y + movement.velocityY * speed * scale;
 
         // Check collision with walls if dungeon is set
         if (this.dungeon) {
@@ -50,9 +59,21 @@ export class MovementSystem extends System {
         else if (movement.velocityY < 0) movement.direction = 'up';
       }
 
-      // Keep entity in bounds (assuming 800x600 world)
-      transform.x = Math.max(0, Math.min(800 - transform.width, transform.x));
-      transform.y = Math.max(0, Math.min(600 - transform.height, transform.y));
+      // Keep entity inside the dungeon
+      if (this.dungeon) {
+        transform.x = Math.max(0, Math.min(this.dungeon.getPixelWidth() - transform.width, transform.x));
+        transform.y = Math.max(0, Math.min(this.dungeon.getPixelHeight() - transform.height, transform.y));
+      }
     }
   }
+
+  /**
+   * Speed multiplier from the tile under the entity's center
+   */
+  private getSpeedFactor(transform: TransformComponent): number {
+    if (!this.dungeon) return 1;
+
+    const tile = this.dungeon.getTileTypeAt(transform.x + transform.width / 2, transform.y + transform.height / 2);
+    return 1 / tile.movementCost;
+  }
 }
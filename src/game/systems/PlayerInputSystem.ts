@@ -0,0 +1,89 @@
+/**
+ * PlayerInputSystem - Applies player input at the start of each tick
+ * Input set between ticks (keyboard, replays) is latched here, so every tick
+ * sees exactly one input state - this is what makes runs replayable
+ */
+
+import { System } from '../../core/ecs/System';
+import { CombatSystem } from './CombatSystem';
+
+export interface PlayerInput {
+  /**
+   * Movement direction per axis (-1, 0 or 1)
+   */
+  dx: number;
+  dy: number;
+  attack: boolean;
+}
+
+/**
+ * Called with the input applied on each tick
+ */
+export type InputListener = (tick: number, input: Readonly<PlayerInput>) => void;
+
+export class PlayerInputSystem extends System {
+  readonly requiredComponents = ['Player', 'Movement'] as const;
+  readonly phase = 'input';
+
+  private dx = 0;
+  private dy = 0;
+  private attackRequested = false;
+  private listeners: Set<InputListener> = new Set();
+
+  constructor(private combatSystem: CombatSystem) {
+    super();
+  }
+
+  /**
+   * Set the movement direction used from the next tick on
+   */
+  setMovement(dx: number, dy: number): void {
+    this.dx = dx;
+    this.dy = dy;
+  }
+
+  /**
+   * Attack on the next tick
+   */
+  requestAttack(): void {
+    this.attackRequested = true;
+  }
+
+  /**
+   * Subscribe to the input applied on each tick
+   * @returns Function that removes the listener
+   */
+  onInput(listener: InputListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  update(_delta: number): void {
+    const input: PlayerInput = { dx: this.dx, dy: this.dy, attack: this.attackRequested };
+    this.attackRequested = false;
+
+    for (const listener of this.listeners) {
+      listener(this.world.getTickCount(), input);
+    }
+
+    for (const entity of this.getEntities()) {
+      const movement = this.world.getComponent(entity, 'Movement');
+      if (!movement) continue;
+
+      if (input.dx !== 0 || input.dy !== 0) {
+        // Normalize diagonal movement
+        const length = Math.sqrt(input.dx * input.dx + input.dy * input.dy);
+        movement.velocityX = input.dx / length;
+        movement.velocityY = input.dy / length;
+      } else {
+        movement.velocityX = 0;
+        movement.velocityY = 0;
+      }
+
+      if (input.attack) {
+        const enemyIds = this.world.queryEntities('Enemy').map(e => e.id);
+        this.combatSystem.processAttack(entity.id, enemyIds);
+      }
+    }
+  }
+}
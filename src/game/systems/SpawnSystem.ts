@@ -0,0 +1,93 @@
+/**
+ * SpawnSystem - Keeps the dungeon populated
+ * Tops enemies back up to a minimum each tick, at random positions in rooms
+ * other than the one the player started in (never in sealed-off areas or on hazards)
+ */
+
+import { System } from '../../core/ecs/System';
+import type { Entity, EntityId } from '../../core/ecs/Entity';
+import type { Dungeon } from '../Dungeon';
+import type { EntityFactory } from '../factory/EntityFactory';
+
+export class SpawnSystem extends System {
+  readonly requiredComponents = ['Enemy'] as const;
+  readonly phase = 'post-simulation';
+
+  private dungeon: Dungeon | null = null;
+  private playerEntityId: EntityId | null = null;
+  private depth = 1;
+
+  /**
+   * @param minEnemies - Enemies are spawned while fewer than this are alive
+   */
+  constructor(
+    private factory: EntityFactory,
+    private minEnemies: number = 3
+  ) {
+    super();
+  }
+
+  setDungeon(dungeon: Dungeon): void {
+    this.dungeon = dungeon;
+  }
+
+  setPlayerEntity(playerId: EntityId): void {
+    this.playerEntityId = playerId;
+  }
+
+  /**
+   * Change how many enemies are kept alive (0 = no random spawning)
+   */
+  setMinEnemies(minEnemies: number): void {
+    this.minEnemies = minEnemies;
+  }
+
+  /**
+   * Set the floor being populated (spawn tables pick enemy tiers by depth and player level)
+   */
+  setDepth(depth: number): void {
+    this.depth = depth;
+  }
+
+  update(_delta: number): void {
+    if (this.getEntities().size < this.minEnemies) {
+      this.spawnRandomEnemy();
+    }
+  }
+
+  /**
+   * Spawn an enemy picked from a spawn table at a random free position
+   * @returns The enemy, or null if no free position was found or the table yielded nothing
+   */
+  spawnRandomEnemy(table: string = 'enemies'): Entity | null {
+    if (!this.dungeon) return null;
+
+    const random = this.world.random.get('spawn');
+    const tileSize = this.dungeon.getTileSize();
+    const spawnRoom = this.dungeon.getSpawnRoom();
+    const otherRooms = this.dungeon.getRooms().filter(room => room !== spawnRoom);
+    const rooms = otherRooms.length > 0 ? otherRooms : [spawnRoom];
+    let x: number, y: number;
+    let attempts = 0;
+    const maxAttempts = 50;
+
+    // Find a valid spawn position
+    do {
+      const room = random.choice(rooms);
+      x = random.nextFloat(room.x * tileSize, (room.x + room.width) * tileSize);
+      y = random.nextFloat(room.y * tileSize, (room.y + room.height) * tileSize);
+      attempts++;
+    } while (
+      !(this.dungeon.isReachable(x, y, 25, 25) && this.dungeon.isSafe(x, y, 25, 25)) &&
+      attempts < maxAttempts
+    );
+
+    if (attempts >= maxAttempts) return null;
+
+    const playerComponent =
+      this.playerEntityId !== null ? this.world.getComponent(this.playerEntityId, 'Player') : undefined;
+    const playerLevel = playerComponent?.level || 1;
+
+    return this.factory.createFromTable(table, x, y, { level: playerLevel, depth: this.depth });
+  }
+}
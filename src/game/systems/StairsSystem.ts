@@ -0,0 +1,44 @@
+/**
+ * StairsSystem - Detects the player stepping onto the stairs down
+ * Emits 'stairs:reached' when the player's center enters the stairs tile
+ * (only on entering, so arriving next to them doesn't trigger again)
+ */
+
+import { System } from '../../core/ecs/System';
+import type { EntityId } from '../../core/ecs/Entity';
+import type { Dungeon } from '../Dungeon';
+import { TILE_STAIRS } from '../tiles/TileRegistry';
+
+export class StairsSystem extends System {
+  readonly requiredComponents = ['Player', 'Transform'] as const;
+  readonly phase = 'post-simulation';
+
+  private dungeon: Dungeon | null = null;
+  private onStairs: Set<EntityId> = new Set();
+
+  setDungeon(dungeon: Dungeon): void {
+    this.dungeon = dungeon;
+    this.onStairs.clear();
+  }
+
+  update(_delta: number): void {
+    if (!this.dungeon) return;
+
+    const tileSize = this.dungeon.getTileSize();
+
+    for (const entity of this.getEntities()) {
+      const transform = this.world.getComponent(entity, 'Transform');
+      if (!transform) continue;
+
+      const tileX = Math.floor((transform.x + transform.width / 2) / tileSize);
+      const tileY = Math.floor((transform.y + transform.height / 2) / tileSize);
+
+      if (this.dungeon.getTile(tileX, tileY) !== TILE_STAIRS) {
+        this.onStairs.delete(entity.id);
+      } else if (!this.onStairs.has(entity.id)) {
+        this.onStairs.add(entity.id);
+        this.world.events.emit('stairs:reached', { entity });
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * TriggerSystem - Reports the player walking into trigger areas
+ * Emits 'trigger:entered' when the player starts overlapping a trigger (only
+ * on entering, like the stairs); once-only triggers are removed after firing
+ */
+
+import { System } from '../../core/ecs/System';
+import type { EntityId } from '../../core/ecs/Entity';
+import type { TransformComponent } from '../../core/ecs/ComponentTypes';
+import '../components/TriggerComponent';
+
+export class TriggerSystem extends System {
+  readonly requiredComponents = ['Trigger', 'Transform'] as const;
+  readonly phase = 'post-simulation';
+
+  // Trigger/player pairs currently overlapping ('trigger:player')
+  private inside: Set<string> = new Set();
+
+  update(_delta: number): void {
+    const players = this.world.queryEntities('Player', 'Transform');
+    const stillInside: Set<string> = new Set();
+
+    for (const entity of this.getEntities()) {
+      const trigger = this.world.getComponent(entity, 'Trigger');
+      const area = this.world.getComponent(entity, 'Transform');
+      if (!trigger || !area) continue;
+
+      for (const player of players) {
+        const transform = this.world.getComponent(player, 'Transform')!;
+        if (!this.overlaps(area, transform)) continue;
+
+        const key = this.getKey(entity.id, player.id);
+        stillInside.add(key);
+        if (this.inside.has(key)) continue;
+
+        this.world.events.emit('trigger:entered', { trigger: entity, entity: player, name: trigger.name });
+        if (trigger.once) {
+          this.world.commands.destroyEntity(entity);
+          break;
+        }
+      }
+    }
+
+    this.inside = stillInside;
+  }
+
+  private getKey(trigger: EntityId, player: EntityId): string {
+    return `${trigger}:${player}`;
+  }
+
+  private overlaps(a: TransformComponent, b: TransformComponent): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+}
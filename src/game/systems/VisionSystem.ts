@@ -0,0 +1,59 @@
+/**
+ * VisionSystem - Keeps the player's field of view up to date
+ * Recomputes visibility when the player moves to another tile or the floor
+ * changes; each floor keeps its own memory of explored tiles.
+ */
+
+import { System } from '../../core/ecs/System';
+import type { Dungeon } from '../Dungeon';
+import { FieldOfView } from '../vision/FieldOfView';
+
+export class VisionSystem extends System {
+  readonly requiredComponents = ['Player', 'Transform'] as const;
+  readonly phase = 'post-simulation';
+
+  private fieldOfView: FieldOfView | null = null;
+  private radius: number;
+
+  // Tile the view was last computed from (null = recompute)
+  private origin: { x: number; y: number } | null = null;
+
+  /**
+   * @param radius - How far the player sees (in tiles)
+   */
+  constructor(radius: number = 8) {
+    super();
+    this.radius = radius;
+  }
+
+  setDungeon(dungeon: Dungeon): void {
+    this.fieldOfView = new FieldOfView(dungeon);
+    this.origin = null;
+  }
+
+  /**
+   * Get the field of view of the current floor
+   */
+  getFieldOfView(): FieldOfView | null {
+    return this.fieldOfView;
+  }
+
+  update(_delta: number): void {
+    if (!this.fieldOfView) return;
+
+    const player = this.getEntities().values().next().value;
+    if (!player) return;
+
+    const transform = this.world.getComponent(player, 'Transform');
+    if (!transform) return;
+
+    const tileSize = this.fieldOfView.getTileSize();
+    const tileX = Math.floor((transform.x + transform.width / 2) / tileSize);
+    const tileY = Math.floor((transform.y + transform.height / 2) / tileSize);
+
+    if (this.origin && this.origin.x === tileX && this.origin.y === tileY) return;
+
+    this.origin = { x: tileX, y: tileY };
+    this.fieldOfView.compute(tileX, tileY, this.radius);
+  }
+}
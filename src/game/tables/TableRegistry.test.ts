@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { Random } from '../../core/utils/Random';
+import { TableError, TableRegistry } from './TableRegistry';
+import { defaultTables } from '../factory/EntityFactory';
+
+function createTables(): TableRegistry {
+  const tables = new TableRegistry();
+  tables.define({
+    chest: {
+      rolls: 2,
+      entries: [
+        { item: 'key', guaranteed: true },
+        { item: 'gold', weight: 3 },
+        { table: 'gems', weight: 1 }
+      ]
+    },
+    gems: {
+      entries: [{ item: 'ruby' }, { item: 'emerald' }, {}]
+    },
+    floorDrops: {
+      entries: [
+        { item: 'bread', when: { maxDepth: 2 } },
+        { item: 'elixir', when: { minDepth: 3, minLevel: 5 } }
+      ]
+    }
+  });
+  return tables;
+}
+
+describe('TableRegistry', () => {
+  it('always includes guaranteed entries on top of the weighted rolls', () => {
+    const tables = createTables();
+    const random = new Random('chest');
+
+    for (let i = 0; i < 50; i++) {
+      const items = tables.roll('chest', random);
+      expect(items[0]).toBe('key');
+      expect(items.length).toBeGreaterThanOrEqual(2);
+      expect(items.length).toBeLessThanOrEqual(3);
+    }
+  });
+
+  it('reports the expected number of each item per roll', () => {
+    const probabilities = createTables().getProbabilities('chest');
+
+    expect(probabilities.get('key')).toBe(1);
+    expect(probabilities.get('gold')).toBeCloseTo(1.5);
+    expect(probabilities.get('ruby')).toBeCloseTo(1 / 6);
+    expect(probabilities.get('emerald')).toBeCloseTo(1 / 6);
+  });
+
+  it('rolls close to the expected rates', () => {
+    const tables = createTables();
+    const random = new Random(99);
+    const counts = new Map<string, number>();
+    const rolls = 4000;
+
+    for (let i = 0; i < rolls; i++) {
+      for (const item of tables.roll('chest', random)) {
+        counts.set(item, (counts.get(item) ?? 0) + 1);
+      }
+    }
+
+    for (const [item, expected] of tables.getProbabilities('chest')) {
+      expect((counts.get(item) ?? 0) / rolls).toBeCloseTo(expected, 1);
+    }
+  });
+
+  it('only picks entries whose level and depth conditions hold', () => {
+    const tables = createTables();
+
+    expect(tables.getProbabilities('floorDrops', { depth: 1 })).toEqual(new Map([['bread', 1]]));
+    expect(tables.getProbabilities('floorDrops', { depth: 3, level: 4 })).toEqual(new Map());
+    expect(tables.getProbabilities('floorDrops', { depth: 3, level: 5 })).toEqual(new Map([['elixir', 1]]));
+    expect(tables.rollOne('floorDrops', new Random(1), { depth: 3 })).toBeNull();
+  });
+
+  it('gives the same rolls for the same seed', () => {
+    const tables = createTables();
+    const a = new Random('same');
+    const b = new Random('same');
+
+    for (let i = 0; i < 20; i++) {
+      expect(tables.roll('chest', a)).toEqual(tables.roll('chest', b));
+    }
+  });
+
+  it('lists every problem in invalid definitions and registers none of them', () => {
+    const tables = new TableRegistry();
+
+    let error: unknown;
+    try {
+      tables.define({
+        loop: { entries: [{ table: 'loop' }] },
+        broken: { rolls: -1, entries: [{ item: 'a', table: 'b', weight: -2, chance: 1 } as never] }
+      });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(TableError);
+    expect((error as TableError).issues).toEqual([
+      "tables: table 'broken': 'rolls' must be a non-negative integer",
+      "tables: table 'broken', entry 0: unknown field 'chance'",
+      "tables: table 'broken', entry 0: use either 'item' or 'table', not both",
+      "tables: table 'broken', entry 0: 'weight' must be a non-negative number",
+      "tables: table 'broken' references unknown table 'b'",
+      'tables: nested table cycle loop -> loop'
+    ]);
+    expect(tables.getNames()).toEqual([]);
+  });
+});
+
+describe('bundled enemy tables', () => {
+  const tier = (depth: number, level: number) =>
+    Array.from(defaultTables.getProbabilities('enemies', { depth, level }).keys()).sort();
+
+  it('move to stronger enemies with depth', () => {
+    expect(tier(1, 1)).toEqual(['goblin', 'slime']);
+    expect(tier(2, 1)).toEqual(['goblin', 'skeleton']);
+    expect(tier(4, 1)).toEqual(['demon', 'skeleton']);
+  });
+
+  it('let a high player level bump the tier on shallow floors', () => {
+    expect(tier(1, 5)).toEqual(tier(2, 1));
+    expect(tier(2, 8)).toEqual(tier(4, 1));
+  });
+});
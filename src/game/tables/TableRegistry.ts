@@ -0,0 +1,359 @@
+/**
+ * TableRegistry - Data-driven weighted random tables (spawns, loot)
+ * Entries pick an item or roll a nested table, can be guaranteed, and can be
+ * limited to a player level / floor depth range. Tables are validated when
+ * loaded and can report expected drop rates for balancing.
+ */
+
+import type { Random } from '../../core/utils/Random';
+
+/**
+ * Values conditions are checked against (both default to 1)
+ */
+export interface TableContext {
+  level?: number;
+  depth?: number;
+}
+
+/**
+ * Inclusive ranges an entry is limited to
+ */
+export interface TableCondition {
+  minLevel?: number;
+  maxLevel?: number;
+  minDepth?: number;
+  maxDepth?: number;
+}
+
+/**
+ * Table entry as written in JSON
+ * An entry with neither item nor table yields nothing (e.g. "no drop")
+ */
+export interface TableEntryDefinition {
+  item?: string;
+  table?: string;
+  /**
+   * Relative chance among the non-guaranteed entries (default 1)
+   */
+  weight?: number;
+  /**
+   * Always included, in addition to the weighted rolls
+   */
+  guaranteed?: boolean;
+  when?: TableCondition;
+}
+
+export interface TableDefinition {
+  /**
+   * Number of weighted picks per roll (default 1)
+   */
+  rolls?: number;
+  entries: TableEntryDefinition[];
+}
+
+interface TableEntry {
+  item: string | null;
+  table: string | null;
+  weight: number;
+  guaranteed: boolean;
+  when: TableCondition;
+}
+
+interface Table {
+  rolls: number;
+  entries: TableEntry[];
+}
+
+const CONDITION_KEYS: readonly (keyof TableCondition)[] = ['minLevel', 'maxLevel', 'minDepth', 'maxDepth'];
+const ENTRY_KEYS: readonly string[] = ['item', 'table', 'weight', 'guaranteed', 'when'];
+
+/**
+ * Raised when table data is invalid; lists every problem found
+ */
+export class TableError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid table data:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'TableError';
+  }
+}
+
+export class TableRegistry {
+  private tables: Map<string, Table> = new Map();
+
+  /**
+   * Parse and register tables from a JSON document ({ name: definition })
+   * @param source - Label used in error messages (e.g. file name)
+   */
+  loadJSON(json: string, source: string = 'tables'): void {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new TableError([`${source}: ${(error as Error).message}`]);
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new TableError([`${source}: expected an object mapping table names to definitions`]);
+    }
+
+    this.define(data as Record<string, TableDefinition>, source);
+  }
+
+  /**
+   * Register table definitions
+   * All definitions are validated first; nothing is registered if any is invalid
+   */
+  define(definitions: Record<string, TableDefinition>, source: string = 'tables'): void {
+    const issues: string[] = [];
+    const parsed: Map<string, Table> = new Map();
+
+    for (const [name, definition] of Object.entries(definitions)) {
+      const table = this.parseDefinition(name, definition, source, issues);
+      if (table) parsed.set(name, table);
+    }
+
+    // Nested tables must exist (in this batch or already registered)
+    const lookup = (name: string): Table | undefined => parsed.get(name) ?? this.tables.get(name);
+    for (const [name, table] of parsed) {
+      for (const entry of table.entries) {
+        if (entry.table !== null && !lookup(entry.table) && !Object.hasOwn(definitions, entry.table)) {
+          issues.push(`${source}: table '${name}' references unknown table '${entry.table}'`);
+        }
+      }
+    }
+
+    const inCycle: Set<string> = new Set();
+    for (const name of parsed.keys()) {
+      if (inCycle.has(name)) continue;
+
+      const cycle = this.findCycle(name, lookup, []);
+      if (cycle) {
+        cycle.forEach(member => inCycle.add(member));
+        issues.push(`${source}: nested table cycle ${cycle.join(' -> ')}`);
+      }
+    }
+
+    if (issues.length > 0) {
+      throw new TableError(Array.from(new Set(issues)));
+    }
+
+    for (const [name, table] of parsed) {
+      this.tables.set(name, table);
+    }
+  }
+
+  /**
+   * Roll a table
+   * @returns Items picked (guaranteed entries first), possibly empty
+   * @throws TableError if the table does not exist
+   */
+  roll(name: string, random: Random, context: TableContext = {}): string[] {
+    const table = this.get(name);
+    const results: string[] = [];
+
+    for (const entry of table.entries) {
+      if (entry.guaranteed && this.matches(entry, context)) {
+        this.collect(entry, random, context, results);
+      }
+    }
+
+    const candidates = this.getCandidates(table, context);
+    const totalWeight = candidates.reduce((sum, entry) => sum + entry.weight, 0);
+
+    for (let i = 0; i < table.rolls && totalWeight > 0; i++) {
+      let pick = random.nextFloat(0, totalWeight);
+      const entry = candidates.find(candidate => (pick -= candidate.weight) < 0) ?? candidates[candidates.length - 1];
+      this.collect(entry, random, context, results);
+    }
+
+    return results;
+  }
+
+  /**
+   * Roll a table and return the first item, or null if nothing was picked
+   */
+  rollOne(name: string, random: Random, context: TableContext = {}): string | null {
+    return this.roll(name, random, context)[0] ?? null;
+  }
+
+  /**
+   * Expected number of each item from one roll of a table (for balancing)
+   * For single-roll tables without guaranteed entries this is the chance of getting the item
+   */
+  getProbabilities(name: string, context: TableContext = {}): Map<string, number> {
+    const table = this.get(name);
+    const expected: Map<string, number> = new Map();
+
+    const add = (entry: TableEntry, factor: number): void => {
+      if (entry.item !== null) {
+        expected.set(entry.item, (expected.get(entry.item) ?? 0) + factor);
+      } else if (entry.table !== null) {
+        for (const [item, count] of this.getProbabilities(entry.table, context)) {
+          expected.set(item, (expected.get(item) ?? 0) + count * factor);
+        }
+      }
+    };
+
+    for (const entry of table.entries) {
+      if (entry.guaranteed && this.matches(entry, context)) add(entry, 1);
+    }
+
+    const candidates = this.getCandidates(table, context);
+    const totalWeight = candidates.reduce((sum, entry) => sum + entry.weight, 0);
+    if (totalWeight > 0) {
+      for (const entry of candidates) {
+        add(entry, (entry.weight / totalWeight) * table.rolls);
+      }
+    }
+
+    return expected;
+  }
+
+  /**
+   * Check if a table is registered
+   */
+  has(name: string): boolean {
+    return this.tables.has(name);
+  }
+
+  /**
+   * Get names of all registered tables
+   */
+  getNames(): string[] {
+    return Array.from(this.tables.keys());
+  }
+
+  private get(name: string): Table {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new TableError([`unknown table '${name}'`]);
+    }
+    return table;
+  }
+
+  /**
+   * Weighted (non-guaranteed) entries whose conditions hold
+   */
+  private getCandidates(table: Table, context: TableContext): TableEntry[] {
+    return table.entries.filter(entry => !entry.guaranteed && entry.weight > 0 && this.matches(entry, context));
+  }
+
+  private matches(entry: TableEntry, context: TableContext): boolean {
+    const level = context.level ?? 1;
+    const depth = context.depth ?? 1;
+    const { minLevel, maxLevel, minDepth, maxDepth } = entry.when;
+
+    return (
+      (minLevel === undefined || level >= minLevel) &&
+      (maxLevel === undefined || level <= maxLevel) &&
+      (minDepth === undefined || depth >= minDepth) &&
+      (maxDepth === undefined || depth <= maxDepth)
+    );
+  }
+
+  private collect(entry: TableEntry, random: Random, context: TableContext, results: string[]): void {
+    if (entry.item !== null) {
+      results.push(entry.item);
+    } else if (entry.table !== null) {
+      results.push(...this.roll(entry.table, random, context));
+    }
+  }
+
+  /**
+   * Follow nested table references looking for a path back to the start
+   */
+  private findCycle(name: string, lookup: (name: string) => Table | undefined, path: string[]): string[] | null {
+    if (path.includes(name)) {
+      return path[0] === name ? [...path, name] : null;
+    }
+
+    const table = lookup(name);
+    if (!table) return null;
+
+    for (const entry of table.entries) {
+      if (entry.table === null) continue;
+      const cycle = this.findCycle(entry.table, lookup, [...path, name]);
+      if (cycle) return cycle;
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a definition and apply defaults
+   */
+  private parseDefinition(name: string, definition: TableDefinition, source: string, issues: string[]): Table | null {
+    const where = `${source}: table '${name}'`;
+
+    if (typeof definition !== 'object' || definition === null || Array.isArray(definition)) {
+      issues.push(`${where}: expected an object`);
+      return null;
+    }
+
+    const rolls = definition.rolls ?? 1;
+    if (!Number.isInteger(rolls) || rolls < 0) {
+      issues.push(`${where}: 'rolls' must be a non-negative integer`);
+    }
+
+    if (!Array.isArray(definition.entries)) {
+      issues.push(`${where}: 'entries' must be an array`);
+      return null;
+    }
+
+    const entries: TableEntry[] = [];
+
+    definition.entries.forEach((entry, index) => {
+      const at = `${where}, entry ${index}`;
+
+      if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+        issues.push(`${at}: expected an object`);
+        return;
+      }
+
+      for (const key of Object.keys(entry)) {
+        if (!ENTRY_KEYS.includes(key)) issues.push(`${at}: unknown field '${key}'`);
+      }
+
+      if (entry.item !== undefined && typeof entry.item !== 'string') {
+        issues.push(`${at}: 'item' must be a string`);
+      }
+      if (entry.table !== undefined && typeof entry.table !== 'string') {
+        issues.push(`${at}: 'table' must be a string`);
+      }
+      if (entry.item !== undefined && entry.table !== undefined) {
+        issues.push(`${at}: use either 'item' or 'table', not both`);
+      }
+
+      const weight = entry.weight ?? 1;
+      if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+        issues.push(`${at}: 'weight' must be a non-negative number`);
+      }
+      if (entry.guaranteed !== undefined && typeof entry.guaranteed !== 'boolean') {
+        issues.push(`${at}: 'guaranteed' must be true or false`);
+      }
+
+      const when = entry.when ?? {};
+      if (typeof when !== 'object' || when === null || Array.isArray(when)) {
+        issues.push(`${at}: 'when' must be an object`);
+      } else {
+        for (const [key, value] of Object.entries(when)) {
+          if (!(CONDITION_KEYS as readonly string[]).includes(key)) {
+            issues.push(`${at}: unknown condition '${key}' (expected ${CONDITION_KEYS.join(', ')})`);
+          } else if (typeof value !== 'number' || !Number.isFinite(value)) {
+            issues.push(`${at}: condition '${key}' must be a number`);
+          }
+        }
+      }
+
+      entries.push({
+        item: typeof entry.item === 'string' ? entry.item : null,
+        table: typeof entry.table === 'string' ? entry.table : null,
+        weight,
+        guaranteed: entry.guaranteed === true,
+        when
+      });
+    });
+
+    return { rolls, entries };
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * TileRegistry - Tile types and their gameplay properties
+ * Dungeon tiles are stored as numeric ids; the registry says what each id
+ * means (can it be walked on, does it block sight, does it hurt). Movement,
+ * hazards, spawning and line of sight all ask the registry rather than
+ * checking ids, so new tile types only need registering.
+ */
+
+export const TILE_FLOOR = 0;
+export const TILE_WALL = 1;
+export const TILE_STAIRS = 2;
+export const TILE_DOOR = 3;
+export const TILE_WATER = 4;
+export const TILE_LAVA = 5;
+export const TILE_SPIKES = 6;
+export const TILE_PIT = 7;
+
+export interface TileType {
+  id: number;
+  name: string;
+  /**
+   * Entities can walk onto the tile
+   */
+  passable: boolean;
+  /**
+   * Line of sight stops at the tile
+   */
+  blocksSight: boolean;
+  /**
+   * Relative cost of crossing the tile (1 = floor) - entities on it move at speed / movementCost
+   */
+  movementCost: number;
+  /**
+   * Damage taken per second while standing on the tile
+   */
+  damagePerSecond: number;
+  /**
+   * Entities standing over the tile die (falling, drowning)
+   */
+  drowns: boolean;
+}
+
+/**
+ * Tile properties as passed to register() - only id and name are required
+ */
+export type TileDefinition = Pick<TileType, 'id' | 'name'> & Partial<Omit<TileType, 'id' | 'name'>>;
+
+export class TileRegistry {
+  private types: Map<number, TileType> = new Map();
+  private names: Map<string, TileType> = new Map();
+
+  /**
+   * Register a tile type (properties default to plain floor)
+   * @throws Error if the id or name is already taken, or a property is invalid
+   */
+  register(definition: TileDefinition): TileType {
+    const type: TileType = {
+      passable: true,
+      blocksSight: false,
+      movementCost: 1,
+      damagePerSecond: 0,
+      drowns: false,
+      ...definition
+    };
+
+    if (!Number.isInteger(type.id) || type.id < 0) {
+      throw new Error(`Tile '${type.name}': id must be a non-negative integer`);
+    }
+    if (this.types.has(type.id)) {
+      throw new Error(`Tile id ${type.id} is already registered (as '${this.types.get(type.id)!.name}')`);
+    }
+    if (this.names.has(type.name)) {
+      throw new Error(`Tile '${type.name}' is already registered`);
+    }
+    if (!(type.movementCost >= 1)) {
+      throw new Error(`Tile '${type.name}': movementCost must be at least 1`);
+    }
+    if (!(type.damagePerSecond >= 0)) {
+      throw new Error(`Tile '${type.name}': damagePerSecond must not be negative`);
+    }
+
+    this.types.set(type.id, type);
+    this.names.set(type.name, type);
+    return type;
+  }
+
+  /**
+   * Get a tile type by id (unknown ids count as wall)
+   */
+  get(id: number): TileType {
+    return this.types.get(id) ?? this.types.get(TILE_WALL)!;
+  }
+
+  /**
+   * Get a tile type by name
+   */
+  getByName(name: string): TileType | undefined {
+    return this.names.get(name);
+  }
+
+  /**
+   * Check if a tile id is registered
+   */
+  has(id: number): boolean {
+    return this.types.has(id);
+  }
+
+  /**
+   * Get all registered tile types
+   */
+  getAll(): TileType[] {
+    return Array.from(this.types.values());
+  }
+}
+
+/**
+ * Shared registry used by dungeons, systems and renderers
+ */
+export const tileRegistry = new TileRegistry();
+
+tileRegistry.register({ id: TILE_FLOOR, name: 'floor' });
+tileRegistry.register({ id: TILE_WALL, name: 'wall', passable: false, blocksSight: true });
+tileRegistry.register({ id: TILE_STAIRS, name: 'stairs' });
+tileRegistry.register({ id: TILE_DOOR, name: 'door', blocksSight: true });
+tileRegistry.register({ id: TILE_WATER, name: 'water', movementCost: 2 });
+tileRegistry.register({ id: TILE_LAVA, name: 'lava', movementCost: 8, damagePerSecond: 25 });
+tileRegistry.register({ id: TILE_SPIKES, name: 'spikes', movementCost: 4, damagePerSecond: 10 });
+tileRegistry.register({ id: TILE_PIT, name: 'pit', movementCost: 100, drowns: true });
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { Random } from '../../core/utils/Random';
+import { Dungeon } from '../Dungeon';
+import type { DungeonGenerator } from '../generation/DungeonGenerator';
+import { TILE_DOOR, TILE_FLOOR, TILE_WALL } from '../tiles/TileRegistry';
+import { FieldOfView, VISIBILITY_REMEMBERED, VISIBILITY_UNSEEN, VISIBILITY_VISIBLE, hasLineOfSight } from './FieldOfView';
+
+const TILE_SIZE = 40;
+
+/**
+ * Build a dungeon from rows of characters ('.' floor, '#' wall, '+' door)
+ */
+function createDungeon(rows: string[]): Dungeon {
+  const tiles = rows.map(row =>
+    Array.from(row, char => (char === '#' ? TILE_WALL : char === '+' ? TILE_DOOR : TILE_FLOOR))
+  );
+  const room = { x: 0, y: 0, width: rows[0].length, height: rows.length };
+  const generator: DungeonGenerator = {
+    generate: () => ({ tiles, rooms: [room], spawnRoom: room, exitRoom: room, stairs: { x: 0, y: 0 } })
+  };
+
+  return new Dungeon(rows[0].length * TILE_SIZE, rows.length * TILE_SIZE, TILE_SIZE, new Random(1), generator);
+}
+
+// prettier-ignore
+const PILLAR = [
+  '.........',
+  '.........',
+  '...#.....',
+  '.........',
+  '.........'
+];
+
+describe('FieldOfView', () => {
+  it('lights walls but not the tiles in their shadow', () => {
+    const fov = new FieldOfView(createDungeon(PILLAR));
+
+    fov.compute(1, 2, 10);
+
+    expect(fov.isVisible(1, 2)).toBe(true);
+    expect(fov.isVisible(3, 2)).toBe(true);
+    expect(fov.isVisible(4, 2)).toBe(false);
+    expect(fov.isVisible(8, 2)).toBe(false);
+    expect(fov.isVisible(8, 0)).toBe(true);
+    expect(fov.isVisible(8, 4)).toBe(true);
+  });
+
+  it('only sees tiles within the radius', () => {
+    const fov = new FieldOfView(createDungeon(PILLAR));
+
+    fov.compute(1, 2, 2);
+
+    expect(fov.isVisible(1, 0)).toBe(true);
+    expect(fov.isVisible(3, 1)).toBe(false);
+    expect(fov.isVisible(6, 2)).toBe(false);
+  });
+
+  it('remembers tiles that went out of view', () => {
+    const fov = new FieldOfView(createDungeon(PILLAR));
+
+    fov.compute(1, 2, 10);
+    const version = fov.getVersion();
+    fov.compute(7, 2, 10);
+
+    expect(fov.getVersion()).not.toBe(version);
+    expect(fov.getVisibility(2, 2)).toBe(VISIBILITY_REMEMBERED);
+    expect(fov.getVisibility(7, 2)).toBe(VISIBILITY_VISIBLE);
+    expect(fov.getVisibility(-1, 0)).toBe(VISIBILITY_UNSEEN);
+    expect(fov.getVisibleTiles()).toContain(2 * 9 + 4);
+  });
+
+  it('cannot see through closed doors', () => {
+    // prettier-ignore
+    const fov = new FieldOfView(createDungeon([
+      '...#...',
+      '...+...',
+      '...#...'
+    ]));
+
+    fov.compute(1, 1, 10);
+
+    expect(fov.isVisible(3, 1)).toBe(true);
+    expect(fov.isExplored(5, 1)).toBe(false);
+  });
+});
+
+describe('hasLineOfSight', () => {
+  it('is blocked by tiles between the ends, but not by the ends themselves', () => {
+    const dungeon = createDungeon(PILLAR);
+
+    expect(hasLineOfSight(dungeon, 1, 2, 5, 2)).toBe(false);
+    expect(hasLineOfSight(dungeon, 1, 2, 3, 2)).toBe(true);
+    expect(hasLineOfSight(dungeon, 1, 0, 5, 0)).toBe(true);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * FieldOfView - What the player can see of a dungeon, and what they remember
+ * Uses recursive shadowcasting over the eight octants around the viewer;
+ * tiles whose type blocks sight (walls, doors) are lit but cast shadows.
+ * Tiles start unseen, become visible when in view and stay remembered after.
+ */
+
+import type { Dungeon } from '../Dungeon';
+
+export const VISIBILITY_UNSEEN = 0;
+export const VISIBILITY_REMEMBERED = 1;
+export const VISIBILITY_VISIBLE = 2;
+
+export type Visibility = typeof VISIBILITY_UNSEEN | typeof VISIBILITY_REMEMBERED | typeof VISIBILITY_VISIBLE;
+
+/**
+ * Transforms mapping the first octant onto each of the eight ([xx, xy, yx, yy])
+ */
+const OCTANTS: readonly (readonly [number, number, number, number])[] = [
+  [1, 0, 0, 1],
+  [0, 1, 1, 0],
+  [0, -1, 1, 0],
+  [-1, 0, 0, 1],
+  [-1, 0, 0, -1],
+  [0, -1, -1, 0],
+  [0, 1, -1, 0],
+  [1, 0, 0, -1]
+];
+
+export class FieldOfView {
+  private dungeon: Dungeon;
+  private state: Uint8Array;
+
+  // Indices of the tiles currently visible, so they can be dimmed on the next compute
+  private visible: number[] = [];
+
+  // Bumped whenever the visibility of any tile changes
+  private version = 0;
+
+  constructor(dungeon: Dungeon) {
+    this.dungeon = dungeon;
+    this.state = new Uint8Array(dungeon.getWidth() * dungeon.getHeight());
+  }
+
+  /**
+   * Recompute the visible tiles from a viewer's tile
+   * Previously visible tiles become remembered
+   * @param radius - How far the viewer sees (in tiles)
+   */
+  compute(originX: number, originY: number, radius: number): void {
+    for (const index of this.visible) {
+      this.state[index] = VISIBILITY_REMEMBERED;
+    }
+    this.visible = [];
+
+    this.reveal(originX, originY);
+    for (const [xx, xy, yx, yy] of OCTANTS) {
+      this.castLight(originX, originY, 1, 1, 0, radius, xx, xy, yx, yy);
+    }
+
+    this.version++;
+  }
+
+  /**
+   * Get the visibility of a tile (out of bounds counts as unseen)
+   */
+  getVisibility(tileX: number, tileY: number): Visibility {
+    if (!this.inBounds(tileX, tileY)) return VISIBILITY_UNSEEN;
+    return this.state[tileY * this.dungeon.getWidth() + tileX] as Visibility;
+  }
+
+  /**
+   * Check if a tile is in view right now
+   */
+  isVisible(tileX: number, tileY: number): boolean {
+    return this.getVisibility(tileX, tileY) === VISIBILITY_VISIBLE;
+  }
+
+  /**
+   * Check if a tile has ever been seen
+   */
+  isExplored(tileX: number, tileY: number): boolean {
+    return this.getVisibility(tileX, tileY) !== VISIBILITY_UNSEEN;
+  }
+
+  /**
+   * Get the tiles currently in view, as indices (y * width + x)
+   */
+  getVisibleTiles(): readonly number[] {
+    return this.visible;
+  }
+
+  /**
+   * Check if the point in pixels lies on a visible tile
+   */
+  isVisibleAt(x: number, y: number): boolean {
+    const tileSize = this.getTileSize();
+    return this.isVisible(Math.floor(x / tileSize), Math.floor(y / tileSize));
+  }
+
+  /**
+   * Get the dungeon's tile size in pixels
+   */
+  getTileSize(): number {
+    return this.dungeon.getTileSize();
+  }
+
+  /**
+   * Get a counter that changes whenever visibility changes (for redrawing only when needed)
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  private inBounds(tileX: number, tileY: number): boolean {
+    return tileX >= 0 && tileY >= 0 && tileX < this.dungeon.getWidth() && tileY < this.dungeon.getHeight();
+  }
+
+  private reveal(tileX: number, tileY: number): void {
+    if (!this.inBounds(tileX, tileY)) return;
+
+    const index = tileY * this.dungeon.getWidth() + tileX;
+    if (this.state[index] !== VISIBILITY_VISIBLE) {
+      this.state[index] = VISIBILITY_VISIBLE;
+      this.visible.push(index);
+    }
+  }
+
+  /**
+   * Scan one octant row by row, between two slopes (1 = diagonal, 0 = straight)
+   * Opaque tiles narrow the scanned wedge; each gap between them is scanned recursively
+   */
+  private castLight(
+    originX: number,
+    originY: number,
+    row: number,
+    startSlope: number,
+    endSlope: number,
+    radius: number,
+    xx: number,
+    xy: number,
+    yx: number,
+    yy: number
+  ): void {
+    if (startSlope < endSlope) return;
+
+    const radiusSquared = radius * radius;
+    let start = startSlope;
+    let nextStart = 0;
+
+    for (let distance = row; distance <= radius; distance++) {
+      const dy = -distance;
+      let blocked = false;
+
+      for (let dx = -distance; dx <= 0; dx++) {
+        const leftSlope = (dx - 0.5) / (dy + 0.5);
+        const rightSlope = (dx + 0.5) / (dy - 0.5);
+
+        if (start < rightSlope) continue;
+        if (endSlope > leftSlope) break;
+
+        const tileX = originX + dx * xx + dy * xy;
+        const tileY = originY + dx * yx + dy * yy;
+
+        if (dx * dx + dy * dy <= radiusSquared) {
+          this.reveal(tileX, tileY);
+        }
+
+        const opaque = this.dungeon.blocksSight(tileX, tileY);
+        if (blocked) {
+          if (opaque) {
+            nextStart = rightSlope;
+          } else {
+            blocked = false;
+            start = nextStart;
+          }
+        } else if (opaque && distance < radius) {
+          // Scan the part of the next rows left of this blocker, then continue right of it
+          blocked = true;
+          this.castLight(originX, originY, distance + 1, start, leftSlope, radius, xx, xy, yx, yy);
+          nextStart = rightSlope;
+        }
+      }
+
+      if (blocked) break;
+    }
+  }
+}
+
+/**
+ * Check if nothing blocks sight on the straight line between two tiles
+ * (the end tiles themselves may block sight, e.g. an enemy standing in a doorway)
+ */
+export function hasLineOfSight(dungeon: Dungeon, fromX: number, fromY: number, toX: number, toY: number): boolean {
+  const dx = Math.abs(toX - fromX);
+  const dy = Math.abs(toY - fromY);
+  const stepX = fromX < toX ? 1 : -1;
+  const stepY = fromY < toY ? 1 : -1;
+
+  let x = fromX;
+  let y = fromY;
+  let error = dx - dy;
+
+  while (x !== toX || y !== toY) {
+    const doubled = error * 2;
+    if (doubled > -dy) {
+      error -= dy;
+      x += stepX;
+    }
+    if (doubled < dx) {
+      error += dx;
+      y += stepY;
+    }
+
+    if ((x !== toX || y !== toY) && dungeon.blocksSight(x, y)) return false;
+  }
+
+  return true;
+}
@@ -1,35 +1,61 @@
 import Phaser from 'phaser';
-import { Dungeon } from '../../game/Dungeon';
-import { World } from '../../core/ecs/World';
-import { EntityFactory } from '../../game/factory/EntityFactory';
-import { MovementSystem } from '../../game/systems/MovementSystem';
-import { CombatSystem } from '../../game/systems/CombatSystem';
-import { HealthSystem } from '../../game/systems/HealthSystem';
-import { SpriteSystem } from '../../game/systems/SpriteSystem';
-import { AISystem } from '../../game/systems/AISystem';
-import { AnimationSystem } from '../../game/systems/AnimationSystem';
-import { eventBus } from '../../core/events/EventBus';
-import type { Entity } from '../../core/ecs/Entity';
-import { updateHealth, updateExp, updateLevel, updateStats, updateKills } from '../../ui/stores/gameStore';
+import type { Dungeon } from '../../game/Dungeon';
+import { GameSimulation } from '../../game/GameSimulation';
+import { isGeneratorName } from '../../game/generation/GeneratorRegistry';
+import { isLevelName, loadLevel } from '../../game/maps/LevelRegistry';
+import { SpriteSystem } from '../systems/SpriteSystem';
+import { CameraSystem } from '../systems/CameraSystem';
+import { DungeonRenderer } from '../utils/DungeonRenderer';
+import { WorldInspector } from '../../core/ecs/WorldInspector';
+import { ReplayRecorder } from '../../game/replay/ReplayRecorder';
+import { ReplayPlayer } from '../../game/replay/ReplayPlayer';
+import { parseReplay, stringifyReplay, type ReplayFile } from '../../game/replay/ReplayFormat';
+import { SubscriptionGroup } from '../../core/events/EventBus';
+import type { GameEventData } from '../../core/events/GameEvents';
+import { updateHealth, updateExp, updateLevel, updateStats, updateKills, updateDepth, updateSeed } from '../../ui/stores/gameStore';
+import { attachInspector, toggleInspector, refreshInspector } from '../../ui/stores/inspectorStore';
+import { attachReplayHost, refreshReplay } from '../../ui/stores/replayStore';
+import { attachMinimap, refreshMinimap } from '../../ui/stores/minimapStore';
+import { attachGameOverHost, showGameOver } from '../../ui/stores/gameOverStore';
+
+// How often the open inspector and replay controls re-read the world (in milliseconds)
+const INSPECTOR_REFRESH_MS = 250;
+
+// How often the minimap picks up explored tiles and moved markers (in milliseconds)
+const MINIMAP_REFRESH_MS = 100;
+
+// Dungeon size in pixels (60x45 tiles); the camera scrolls over anything larger than the canvas
+const MAP_WIDTH = 2400;
+const MAP_HEIGHT = 1800;
+const TILE_SIZE = 40;
+
+export interface GameSceneData {
+  // Watch this replay instead of starting a new run
+  replay?: ReplayFile;
+}
 
 export class GameScene extends Phaser.Scene {
-  // ECS World
-  private world!: World;
-  private factory!: EntityFactory;
-
-  // Systems
-  private movementSystem!: MovementSystem;
-  private combatSystem!: CombatSystem;
-  private healthSystem!: HealthSystem;
-  private spriteSystem!: SpriteSystem;
-  private aiSystem!: AISystem;
-  private animationSystem!: AnimationSystem;
-
-  // Game state
-  private dungeon!: Dungeon;
-  private playerEntity!: Entity;
-  private enemyEntities: Entity[] = [];
-  private monstersKilled = 0;
+  // Headless game state and systems
+  private sim!: GameSimulation;
+
+  // Rendering
+  private dungeonRenderer!: DungeonRenderer;
+  private cameraSystem: CameraSystem | null = null;
+  private spriteSystem: SpriteSystem | null = null;
+
+  // Replays: runs on generated floors are recorded until a save is loaded; a loaded replay replaces the live run
+  private recorder: ReplayRecorder | null = null;
+  private replay: ReplayPlayer | null = null;
+
+  // Set when the player dies: the world is paused and the recording is kept for saving
+  private gameOver = false;
+
+  // Debug
+  private inspectorRefreshTimer = 0;
+  private minimapRefreshTimer = 0;
+
+  // Event subscriptions, removed on shutdown
+  private subscriptions = new SubscriptionGroup();
 
   // Input
   private keys!: {
@@ -42,48 +68,55 @@ export class GameScene extends Phaser.Scene {
     left: Phaser.Input.Keyboard.Key;
     right: Phaser.Input.Keyboard.Key;
     space: Phaser.Input.Keyboard.Key;
+    inspector: Phaser.Input.Keyboard.Key;
   };
 
   constructor() {
     super({ key: 'GameScene' });
   }
 
-  create() {
-    // Create ECS World
-    this.world = new World();
-    this.factory = new EntityFactory(this, this.world);
-
-    // Create and register systems
-    this.movementSystem = new MovementSystem();
-    this.combatSystem = new CombatSystem();
-    this.healthSystem = new HealthSystem();
-    this.spriteSystem = new SpriteSystem();
-    this.aiSystem = new AISystem();
-    this.animationSystem = new AnimationSystem();
-
-    this.world.addSystem(this.movementSystem);
-    this.world.addSystem(this.combatSystem);
-    this.world.addSystem(this.healthSystem);
-    this.world.addSystem(this.animationSystem);
-    this.world.addSystem(this.spriteSystem);
-    this.world.addSystem(this.aiSystem);
-
-    // Create dungeon
-    this.dungeon = new Dungeon(this, 800, 600, 40);
-
-    // Set dungeon reference in systems
-    this.movementSystem.setDungeon(this.dungeon);
-    this.aiSystem.setDungeon(this.dungeon);
-
-    // Create player entity
-    this.playerEntity = this.factory.createPlayer(400, 300);
-    this.aiSystem.setPlayerEntity(this.playerEntity.id);
+  create(data: GameSceneData = {}) {
+    this.recorder = null;
+    this.replay = null;
+    this.gameOver = false;
+    this.dungeonRenderer = new DungeonRenderer(this);
+
+    if (data.replay) {
+      // Replays rebuild the simulation when seeking backwards; hook up each one
+      this.replay = new ReplayPlayer(data.replay, sim => this.attachSimulation(sim));
+      this.replay.play();
+    } else {
+      // Create simulation (world, dungeon, player, enemies)
+      // A ?seed= URL parameter replays a shared run (e.g. ?seed=2026-10-18 for a daily challenge),
+      // ?generator=caves switches the dungeon layout and ?level=crypt starts on a bundled hand-authored map
+      const params = new URLSearchParams(window.location.search);
+      const seed = params.get('seed') ?? undefined;
+      const generatorName = params.get('generator');
+      const generator = isGeneratorName(generatorName) ? generatorName : undefined;
+      const level = params.get('level');
+      const sim = new GameSimulation({
+        width: MAP_WIDTH,
+        height: MAP_HEIGHT,
+        tileSize: TILE_SIZE,
+        seed,
+        generator,
+        map: isLevelName(level) ? loadLevel(level) : null
+      });
+
+      this.attachSimulation(sim);
+      // Replays can only recreate generated floors, so level runs aren't recorded
+      this.recorder = sim.getOptions().map ? null : new ReplayRecorder(sim);
+    }
 
-    // Spawn initial enemies
-    this.spawnInitialEnemies();
+    attachReplayHost({
+      getRecording: () => this.recorder?.toJSON() ?? (this.replay && stringifyReplay(this.replay.getReplay())),
+      startReplay: json => this.scene.restart({ replay: parseReplay(json) }),
+      stopReplay: () => this.scene.restart({}),
+      getPlayer: () => this.replay
+    });
+    attachGameOverHost({ newRun: () => this.scene.restart({}) });
 
-    // Setup event listeners
-    this.setupEventListeners();
+    this.events.once(Phaser.Scenes.Events.SHUTDOWN, () => this.shutdown());
 
     // Setup input
     this.keys = {
@@ -96,33 +129,68 @@ export class GameScene extends Phaser.Scene {
       left: this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.LEFT),
       right: this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.RIGHT),
       space: this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE),
+      inspector: this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.BACKTICK),
     };
 
     this.keys.space.on('down', () => {
-      this.handleAttack();
+      if (!this.replay && !this.gameOver) this.sim.attack();
     });
 
-    // Initial UI update
-    this.updateUI();
+    this.keys.inspector.on('down', () => {
+      toggleInspector();
+    });
   }
 
   update(_time: number, delta: number) {
-    // Handle input
-    this.handleInput();
+    if (this.replay) {
+      // Advance playback (recorded input, fixed ticks, then rendering)
+      this.replay.update(delta);
+    } else {
+      // Handle input (ignored once the run is over)
+      if (!this.gameOver) this.handleInput();
+
+      // Advance the simulation (fixed ticks, then rendering; only rendering while paused)
+      this.sim.update(delta);
+    }
 
-    // Update ECS World (all systems)
-    this.world.update(delta);
+    // Draw the tiles the camera moved onto
+    this.dungeonRenderer.update(this.cameras.main);
 
-    // Cleanup dead entities
-    this.cleanupDeadEntities();
+    this.inspectorRefreshTimer += delta;
+    if (this.inspectorRefreshTimer >= INSPECTOR_REFRESH_MS) {
+      this.inspectorRefreshTimer = 0;
+      refreshInspector();
+      if (this.replay) refreshReplay();
+    }
 
-    // Spawn more enemies if too few
-    const aliveEnemies = this.enemyEntities.filter(e => e.active).length;
-    if (aliveEnemies < 3) {
-      this.spawnRandomEnemy();
+    this.minimapRefreshTimer += delta;
+    if (this.minimapRefreshTimer >= MINIMAP_REFRESH_MS) {
+      this.minimapRefreshTimer = 0;
+      refreshMinimap();
     }
   }
 
+  /**
+   * Make a simulation the one this scene renders and reports on
+   */
+  private attachSimulation(sim: GameSimulation) {
+    this.sim = sim;
+
+    // Rendering runs as a render-phase system on the simulation's world
+    this.cameraSystem = new CameraSystem(this.cameras.main);
+    sim.addSystem(this.cameraSystem);
+    this.spriteSystem = new SpriteSystem(this);
+    sim.addSystem(this.spriteSystem);
+    this.showDungeon();
+
+    attachInspector(new WorldInspector(sim.world));
+    attachMinimap(sim);
+
+    // Setup event listeners
+    this.setupEventListeners();
+    this.updateUI();
+  }
+
   private handleInput() {
     let dx = 0;
     let dy = 0;
@@ -132,168 +200,89 @@ export class GameScene extends Phaser.Scene {
     if (this.keys.a.isDown || this.keys.left.isDown) dx -= 1;
     if (this.keys.d.isDown || this.keys.right.isDown) dx += 1;
 
-    // Set player velocity
-    const movement = this.world.getComponent(this.playerEntity, 'Movement');
-    if (movement) {
-      if (dx !== 0 || dy !== 0) {
-        // Normalize diagonal movement
-        const length = Math.sqrt(dx * dx + dy * dy);
-        movement.velocityX = dx / length;
-        movement.velocityY = dy / length;
-      } else {
-        movement.velocityX = 0;
-        movement.velocityY = 0;
-      }
-    }
+    this.sim.setPlayerInput(dx, dy);
   }
 
-  private handleAttack() {
-    // Get all enemy entity IDs
-    const enemyIds = this.enemyEntities.filter(e => e.active).map(e => e.id);
-
-    // Process attack through combat system
-    this.combatSystem.processAttack(this.playerEntity.id, enemyIds);
+  private setupEventListeners() {
+    // Simulation has already applied experience / level up by the time these run
+    const events = this.sim.world.events;
+
+    this.subscriptions.add(
+      events.on('enemy:killed', this.handleUIEvent),
+      events.on('player:levelup', this.handleUIEvent),
+      events.on('entity:died', this.handleEntityDied),
+      events.on('health:changed', this.handleHealthChanged),
+      events.on('floor:entered', this.handleFloorEntered)
+    );
   }
 
-  private spawnInitialEnemies() {
-    const enemyTypes: ('slime' | 'goblin' | 'skeleton' | 'demon')[] = [
-      'slime',
-      'slime',
-      'goblin',
-      'skeleton'
-    ];
-
-    for (let i = 0; i < 5; i++) {
-      const type = enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
-      this.spawnRandomEnemy(type);
-    }
-  }
+  private handleUIEvent = (): void => {
+    this.updateUI();
+  };
 
-  private spawnRandomEnemy(type?: 'slime' | 'goblin' | 'skeleton' | 'demon') {
-    let x: number, y: number;
-    let attempts = 0;
-    const maxAttempts = 50;
-
-    // Find a valid spawn position
-    do {
-      x = Math.random() * (800 - 100) + 50;
-      y = Math.random() * (600 - 100) + 50;
-      attempts++;
-    } while (this.dungeon.isWall(x, y, 25, 25) && attempts < maxAttempts);
-
-    if (attempts < maxAttempts) {
-      // Get player level
-      const playerComponent = this.world.getComponent(this.playerEntity, 'Player');
-      const playerLevel = playerComponent?.level || 1;
-
-      // Create enemy
-      const enemy = type
-        ? this.factory.createEnemy(x, y, type)
-        : this.factory.createRandomEnemy(x, y, playerLevel);
-
-      this.enemyEntities.push(enemy);
+  private handleEntityDied = (data: GameEventData<'entity:died'>): void => {
+    // Check if it's the player (a replay simply ends there)
+    if (data.entity === this.sim.getPlayer() && !this.replay) {
+      // Stop the run but keep its recording - a fatal run is the one most worth saving
+      this.gameOver = true;
+      this.recorder?.stop();
+      this.sim.world.setPaused(true);
+
+      const playerComponent = this.sim.world.getComponent(data.entity, 'Player');
+      showGameOver({
+        depth: this.sim.getDepth(),
+        level: playerComponent?.level ?? 1,
+        kills: this.sim.getMonstersKilled(),
+        recorded: this.recorder !== null
+      });
     }
-  }
-
-  private cleanupDeadEntities() {
-    this.enemyEntities = this.enemyEntities.filter(entity => {
-      if (!entity.active) {
-        // Destroy graphics
-        const sprite = this.world.getComponent(entity, 'Sprite');
-        if (sprite) {
-          sprite.graphics.destroy();
-        }
-
-        // Remove from world
-        this.world.removeEntity(entity);
-        return false;
-      }
-      return true;
-    });
-  }
-
-  private setupEventListeners() {
-    // Listen to enemy killed events
-    eventBus.on('enemy:killed', (data) => {
-      this.monstersKilled++;
-
-      // Give player experience
-      const playerComponent = this.world.getComponent(this.playerEntity, 'Player');
-      if (playerComponent) {
-        playerComponent.experience += data.expReward;
-
-        // Check for level up
-        if (playerComponent.experience >= playerComponent.experienceToNextLevel) {
-          this.handleLevelUp();
-        }
-
-        this.updateUI();
-      }
-    });
+  };
 
-    // Listen to entity died events
-    eventBus.on('entity:died', (data) => {
-      // Check if it's the player
-      if (data.entity === this.playerEntity) {
-        alert('Game Over! You have been defeated. Reloading...');
-        window.location.reload();
-      }
-    });
+  private handleFloorEntered = (): void => {
+    this.showDungeon();
+    this.updateUI();
+  };
 
-    // Listen to health changed events to update UI
-    eventBus.on('health:changed', (data) => {
-      if (data.entity === this.playerEntity) {
-        this.updateUI();
-      }
-    });
+  /**
+   * Draw the current floor as far as the player has explored it and fit the camera to it
+   */
+  private showDungeon() {
+    const dungeon = this.sim.getDungeon();
+    const fieldOfView = this.sim.getFieldOfView();
+    this.dungeonRenderer.draw(dungeon, fieldOfView);
+    this.spriteSystem?.setFieldOfView(fieldOfView);
+    this.cameraSystem?.setBounds(dungeon.getPixelWidth(), dungeon.getPixelHeight());
   }
 
-  private handleLevelUp() {
-    const playerComponent = this.world.getComponent(this.playerEntity, 'Player');
-    const playerHealth = this.world.getComponent(this.playerEntity, 'Health');
-    const playerCombat = this.world.getComponent(this.playerEntity, 'Combat');
-    const playerMovement = this.world.getComponent(this.playerEntity, 'Movement');
-
-    if (!playerComponent || !playerHealth || !playerCombat || !playerMovement) return;
-
-    // Level up
-    playerComponent.level++;
-    playerComponent.experience -= playerComponent.experienceToNextLevel;
-    playerComponent.experienceToNextLevel = Math.floor(
-      playerComponent.experienceToNextLevel * 1.5
-    );
-
-    // Automatic stat increases
-    playerHealth.max += 20;
-    playerHealth.current = playerHealth.max;
-    playerCombat.damage += 3;
-    playerCombat.defense += 2;
-    playerMovement.speed += 0.2;
-    playerComponent.strength += 3;
-
-    // Grant upgrade points
-    playerComponent.upgradePoints += 3;
-
-    // Show notification
-    console.log(`LEVEL UP! Now Level ${playerComponent.level}`);
-
-    // Emit level up event
-    eventBus.emit('player:levelup', {
-      player: this.playerEntity,
-      level: playerComponent.level,
-      newStrength: playerComponent.strength,
-      newDefense: playerCombat.defense,
-      newSpeed: playerMovement.speed
-    });
+  private handleHealthChanged = (data: GameEventData<'health:changed'>): void => {
+    if (data.entity === this.sim.getPlayer()) {
+      this.updateUI();
+    }
+  };
 
-    this.updateUI();
+  private shutdown() {
+    this.subscriptions.dispose();
+    attachInspector(null);
+    attachReplayHost(null);
+    attachGameOverHost(null);
+    attachMinimap(null);
+    this.dungeonRenderer.destroy();
+    this.recorder?.stop();
+
+    if (this.replay) {
+      this.replay.destroy();
+    } else {
+      this.sim.destroy();
+    }
   }
 
   public updateUI() {
-    const playerComponent = this.world.getComponent(this.playerEntity, 'Player');
-    const playerHealth = this.world.getComponent(this.playerEntity, 'Health');
-    const playerCombat = this.world.getComponent(this.playerEntity, 'Combat');
-    const playerMovement = this.world.getComponent(this.playerEntity, 'Movement');
+    const world = this.sim.world;
+    const player = this.sim.getPlayer();
+    const playerComponent = world.getComponent(player, 'Player');
+    const playerHealth = world.getComponent(player, 'Health');
+    const playerCombat = world.getComponent(player, 'Combat');
+    const playerMovement = world.getComponent(player, 'Movement');
 
     if (!playerComponent || !playerHealth || !playerCombat || !playerMovement) return;
 
@@ -301,10 +290,34 @@ export class GameScene extends Phaser.Scene {
     updateExp(playerComponent.experience, playerComponent.experienceToNextLevel);
     updateLevel(playerComponent.level);
     updateStats(playerComponent.strength, playerCombat.defense, playerMovement.speed);
-    updateKills(this.monstersKilled);
+    updateKills(this.sim.getMonstersKilled());
+    updateDepth(this.sim.getDepth());
+    updateSeed(this.sim.getSeed());
+  }
+
+  /**
+   * Save the current run as a JSON snapshot
+   */
+  public saveRun(): string {
+    return this.sim.saveRun();
+  }
+
+  /**
+   * Load a run saved with saveRun
+   */
+  public loadRun(json: string): void {
+    this.sim.loadRun(json);
+    // The recording can't continue from a loaded run
+    this.recorder?.stop();
+    this.recorder = null;
+    this.updateUI();
+  }
+
+  public getSimulation(): GameSimulation {
+    return this.sim;
   }
 
   public getDungeon(): Dungeon {
-    return this.dungeon;
+    return this.sim.getDungeon();
   }
 }
@@ -0,0 +1,70 @@
+/**
+ * CameraSystem - Keeps the player in view on maps larger than the screen
+ * Follows the player's interpolated position with a deadzone (the player can
+ * move around the middle of the screen without scrolling) and smoothing,
+ * clamped to the dungeon's bounds.
+ */
+
+import { System } from '../../core/ecs/System';
+
+export interface CameraOptions {
+  /**
+   * Deadzone size as a fraction of the view (default 0.3 x 0.25)
+   */
+  deadzoneWidth?: number;
+  deadzoneHeight?: number;
+  /**
+   * Fraction of the distance to the target covered each frame (1 = no smoothing, default 0.1)
+   */
+  lerp?: number;
+}
+
+export class CameraSystem extends System {
+  readonly requiredComponents = ['Player', 'Transform'] as const;
+  readonly phase = 'render';
+
+  private camera: Phaser.Cameras.Scene2D.Camera;
+  private target = { x: 0, y: 0 };
+  private snapNext = true;
+
+  constructor(camera: Phaser.Cameras.Scene2D.Camera, options: CameraOptions = {}) {
+    super();
+    this.camera = camera;
+
+    const lerp = options.lerp ?? 0.1;
+    camera.startFollow(this.target, false, lerp, lerp);
+    camera.setDeadzone(camera.width * (options.deadzoneWidth ?? 0.3), camera.height * (options.deadzoneHeight ?? 0.25));
+  }
+
+  /**
+   * Limit scrolling to the world (e.g. the dungeon's size in pixels)
+   * The camera jumps straight to the player on the next update
+   */
+  setBounds(width: number, height: number): void {
+    this.camera.setBounds(0, 0, width, height);
+    this.snapNext = true;
+  }
+
+  update(_delta: number): void {
+    const player = this.getEntities().values().next().value;
+    if (!player) return;
+
+    const transform = this.world.getComponent(player, 'Transform');
+    if (!transform) return;
+
+    // Follow the rendered (interpolated) position so the camera doesn't jitter
+    const alpha = this.world.getAlpha();
+    this.target.x = transform.prevX + (transform.x - transform.prevX) * alpha + transform.width / 2;
+    this.target.y = transform.prevY + (transform.y - transform.prevY) * alpha + transform.height / 2;
+
+    if (this.snapNext) {
+      this.snapNext = false;
+      this.camera.centerOn(this.target.x, this.target.y);
+    }
+  }
+
+  destroy(): void {
+    this.camera.stopFollow();
+    super.destroy();
+  }
+}
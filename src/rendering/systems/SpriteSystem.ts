@@ -0,0 +1,138 @@
+/**
+ * SpriteSystem - Handles rendering of sprites based on components
+ * Reads Transform + Sprite components and delegates to specialized renderers
+ * Owns the Phaser graphics objects, so the simulation stays renderer-agnostic
+ * Entities outside the camera's view are hidden instead of drawn, and so are
+ * enemies outside the player's field of view
+ */
+
+import { System } from '../../core/ecs/System';
+import type { Entity } from '../../core/ecs/Entity';
+import { TransformComponent } from '../../core/ecs/ComponentTypes';
+import { PlayerRenderer } from '../utils/PlayerRenderer';
+import { EnemyRenderer } from '../utils/EnemyRenderer';
+import type { EntityRenderer } from '../utils/EntityRenderer';
+import type { FieldOfView } from '../../game/vision/FieldOfView';
+
+// Entities this close to the view (in pixels) are still drawn, covering health bars and effects
+const CULL_MARGIN = 32;
+
+export class SpriteSystem extends System {
+  readonly requiredComponents = ['Transform', 'Sprite'] as const;
+  readonly phase = 'render';
+
+  private scene: Phaser.Scene;
+  private playerRenderer: EntityRenderer = new PlayerRenderer();
+  private enemyRenderer: EntityRenderer = new EnemyRenderer();
+  private fieldOfView: FieldOfView | null = null;
+
+  // One graphics object per rendered entity, created on demand
+  private graphics: Map<Entity, Phaser.GameObjects.Graphics> = new Map();
+
+  // Reused transform holding the interpolated position handed to renderers
+  private renderTransform = new TransformComponent(0, 0, 0, 0);
+
+  constructor(scene: Phaser.Scene) {
+    super();
+    this.scene = scene;
+  }
+
+  /**
+   * Hide enemies the player can't see (all are shown when null)
+   */
+  setFieldOfView(fieldOfView: FieldOfView | null): void {
+    this.fieldOfView = fieldOfView;
+  }
+
+  update(_delta: number): void {
+    const entities = this.getEntities();
+    const alpha = this.world.getAlpha();
+    const view = this.scene.cameras.main.worldView;
+
+    for (const entity of entities) {
+      const transform = this.world.getComponent(entity, 'Transform');
+      const sprite = this.world.getComponent(entity, 'Sprite');
+
+      if (!transform || !sprite) continue;
+
+      const renderTransform = this.interpolate(transform, alpha);
+      const graphics = this.getGraphics(entity, sprite.renderLayer);
+
+      // Clear previous frame
+      graphics.clear();
+
+      // Determine which renderer to use
+      const playerComponent = this.world.getComponent(entity, 'Player');
+      const enemyComponent = this.world.getComponent(entity, 'Enemy');
+
+      const onScreen =
+        renderTransform.x + renderTransform.width >= view.x - CULL_MARGIN &&
+        renderTransform.x <= view.right + CULL_MARGIN &&
+        renderTransform.y + renderTransform.height >= view.y - CULL_MARGIN &&
+        renderTransform.y <= view.bottom + CULL_MARGIN;
+
+      const inSight =
+        !enemyComponent ||
+        !this.fieldOfView ||
+        this.fieldOfView.isVisibleAt(
+          renderTransform.x + renderTransform.width / 2,
+          renderTransform.y + renderTransform.height / 2
+        );
+
+      graphics.setVisible(onScreen && inSight);
+      if (!onScreen || !inSight) continue;
+
+      if (playerComponent) {
+        this.playerRenderer.render(entity, this.world, renderTransform, sprite, graphics);
+      } else if (enemyComponent) {
+        this.enemyRenderer.render(entity, this.world, renderTransform, sprite, graphics);
+      } else {
+        // Generic rendering for entities without specific renderer
+        graphics.fillStyle(sprite.color);
+        graphics.fillRect(renderTransform.x, renderTransform.y, renderTransform.width, renderTransform.height);
+      }
+    }
+  }
+
+  /**
+   * Get (or lazily create) the graphics object for an entity
+   */
+  private getGraphics(entity: Entity, renderLayer: number): Phaser.GameObjects.Graphics {
+    let graphics = this.graphics.get(entity);
+    if (!graphics) {
+      graphics = this.scene.add.graphics();
+      graphics.setDepth(renderLayer);
+      this.graphics.set(entity, graphics);
+    }
+    return graphics;
+  }
+
+  /**
+   * Blend between the previous and current tick position
+   */
+  private interpolate(transform: TransformComponent, alpha: number): TransformComponent {
+    const result = this.renderTransform;
+    result.x = transform.prevX + (transform.x - transform.prevX) * alpha;
+    result.y = transform.prevY + (transform.y - transform.prevY) * alpha;
+    result.width = transform.width;
+    result.height = transform.height;
+    return result;
+  }
+
+  /**
+   * Release graphics when an entity stops being rendered
+   * (Sprite removed, entity deactivated or destroyed)
+   */
+  protected onEntityRemoved(entity: Entity): void {
+    this.graphics.get(entity)?.destroy();
+    this.graphics.delete(entity);
+  }
+
+  destroy(): void {
+    for (const graphics of this.graphics.values()) {
+      graphics.destroy();
+    }
+    this.graphics.clear();
+    super.destroy();
+  }
+}
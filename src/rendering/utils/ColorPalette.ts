@@ -32,6 +32,18 @@ export const GameColors = {
   wallBorder: 0x1a202c,
   floorDark: 0x4a5568,
   floorLight: 0x3d4653,
+  stairs: 0xf6ad55,
+  stairsStep: 0xc05621,
+  door: 0x8b5a2b,
+  doorHandle: 0xd69e2e,
+  water: 0x2b6cb0,
+  waterLight: 0x63b3ed,
+  lava: 0xc53030,
+  lavaGlow: 0xf6ad55,
+  spikes: 0xa0aec0,
+  pit: 0x0b0d12,
+  pitRim: 0x1a202c,
+  unseen: 0x0a0a12,
 
   // UI theme
   uiPrimary: 0xe94560,
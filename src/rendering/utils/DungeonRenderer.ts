@@ -0,0 +1,214 @@
+/**
+ * Dungeon Renderer - Draws the dungeon tile map
+ * Each tile type has its own look; unknown types are drawn as plain floor or
+ * wall depending on whether they are passable.
+ * Only tiles around the camera's view are drawn, so large maps stay cheap.
+ * With a field of view, unseen tiles stay dark and remembered ones are dimmed.
+ */
+
+import type { Dungeon } from '../../game/Dungeon';
+import {
+  TILE_DOOR,
+  TILE_LAVA,
+  TILE_PIT,
+  TILE_SPIKES,
+  TILE_STAIRS,
+  TILE_WATER,
+  tileRegistry
+} from '../../game/tiles/TileRegistry';
+import { VISIBILITY_REMEMBERED, VISIBILITY_UNSEEN, type FieldOfView } from '../../game/vision/FieldOfView';
+import { GameColors } from './ColorPalette';
+
+/**
+ * Extra tiles drawn around the view so scrolling doesn't redraw every frame
+ */
+const VIEW_MARGIN = 2;
+
+interface TileRange {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export class DungeonRenderer {
+  private graphics: Phaser.GameObjects.Graphics;
+  private dungeon: Dungeon | null = null;
+  private fieldOfView: FieldOfView | null = null;
+
+  // Tiles currently drawn (null = redraw on the next update)
+  private drawn: TileRange | null = null;
+  private drawnVersion = -1;
+
+  constructor(scene: Phaser.Scene) {
+    this.graphics = scene.add.graphics();
+  }
+
+  /**
+   * Show a dungeon (drawn on the next update)
+   * Call again after the tiles change
+   * @param fieldOfView - Limits what is shown to what the player has seen (everything when omitted)
+   */
+  draw(dungeon: Dungeon, fieldOfView: FieldOfView | null = null): void {
+    this.dungeon = dungeon;
+    this.fieldOfView = fieldOfView;
+    this.drawn = null;
+  }
+
+  /**
+   * Draw the tiles visible to a camera if the view moved past the drawn area
+   * or the field of view changed
+   */
+  update(camera: Phaser.Cameras.Scene2D.Camera): void {
+    const dungeon = this.dungeon;
+    if (!dungeon) return;
+
+    const tileSize = dungeon.getTileSize();
+    const view = camera.worldView;
+    const visible: TileRange = {
+      left: Math.max(0, Math.floor(view.x / tileSize)),
+      top: Math.max(0, Math.floor(view.y / tileSize)),
+      right: Math.min(dungeon.getWidth() - 1, Math.floor(view.right / tileSize)),
+      bottom: Math.min(dungeon.getHeight() - 1, Math.floor(view.bottom / tileSize))
+    };
+
+    const drawn = this.drawn;
+    const version = this.fieldOfView?.getVersion() ?? 0;
+    if (
+      drawn &&
+      version === this.drawnVersion &&
+      visible.left >= drawn.left &&
+      visible.top >= drawn.top &&
+      visible.right <= drawn.right &&
+      visible.bottom <= drawn.bottom
+    ) {
+      return;
+    }
+
+    const range: TileRange = {
+      left: Math.max(0, visible.left - VIEW_MARGIN),
+      top: Math.max(0, visible.top - VIEW_MARGIN),
+      right: Math.min(dungeon.getWidth() - 1, visible.right + VIEW_MARGIN),
+      bottom: Math.min(dungeon.getHeight() - 1, visible.bottom + VIEW_MARGIN)
+    };
+
+    this.graphics.clear();
+    for (let y = range.top; y <= range.bottom; y++) {
+      for (let x = range.left; x <= range.right; x++) {
+        this.drawVisibleTile(dungeon, x, y, tileSize);
+      }
+    }
+    this.drawn = range;
+    this.drawnVersion = version;
+  }
+
+  destroy(): void {
+    this.graphics.destroy();
+  }
+
+  /**
+   * Draw a tile as the player knows it
+   */
+  private drawVisibleTile(dungeon: Dungeon, x: number, y: number, size: number): void {
+    const visibility = this.fieldOfView?.getVisibility(x, y);
+
+    if (visibility === VISIBILITY_UNSEEN) {
+      this.graphics.fillStyle(GameColors.unseen);
+      this.graphics.fillRect(x * size, y * size, size, size);
+      return;
+    }
+
+    this.drawTile(dungeon.getTile(x, y), x, y, size);
+
+    if (visibility === VISIBILITY_REMEMBERED) {
+      this.graphics.fillStyle(GameColors.unseen, 0.6);
+      this.graphics.fillRect(x * size, y * size, size, size);
+    }
+  }
+
+  private drawTile(tile: number, x: number, y: number, size: number): void {
+    const g = this.graphics;
+    const px = x * size;
+    const py = y * size;
+
+    switch (tile) {
+      case TILE_STAIRS:
+        // Stairs down (steps shrinking towards the bottom)
+        g.fillStyle(GameColors.stairs);
+        g.fillRect(px, py, size, size);
+        g.fillStyle(GameColors.stairsStep);
+        for (let step = 1; step <= 3; step++) {
+          const inset = step * (size / 10);
+          g.fillRect(px + inset, py + step * (size / 4), size - inset * 2, size / 10);
+        }
+        break;
+
+      case TILE_DOOR:
+        // Wooden door with a handle
+        this.drawFloor(x, y, size);
+        g.fillStyle(GameColors.door);
+        g.fillRect(px + size * 0.15, py + size * 0.1, size * 0.7, size * 0.8);
+        g.fillStyle(GameColors.doorHandle);
+        g.fillCircle(px + size * 0.7, py + size * 0.5, size / 16);
+        break;
+
+      case TILE_WATER:
+        // Water with ripples
+        g.fillStyle(GameColors.water);
+        g.fillRect(px, py, size, size);
+        g.lineStyle(2, GameColors.waterLight);
+        g.lineBetween(px + size * 0.2, py + size * 0.35, px + size * 0.5, py + size * 0.35);
+        g.lineBetween(px + size * 0.45, py + size * 0.65, px + size * 0.8, py + size * 0.65);
+        break;
+
+      case TILE_LAVA:
+        // Lava with glowing spots
+        g.fillStyle(GameColors.lava);
+        g.fillRect(px, py, size, size);
+        g.fillStyle(GameColors.lavaGlow);
+        g.fillCircle(px + size * 0.3, py + size * 0.35, size / 8);
+        g.fillCircle(px + size * 0.7, py + size * 0.65, size / 10);
+        break;
+
+      case TILE_SPIKES: {
+        // Floor with a row of spikes
+        this.drawFloor(x, y, size);
+        g.fillStyle(GameColors.spikes);
+        const spikeWidth = size / 4;
+        for (let i = 0; i < 4; i++) {
+          const sx = px + i * spikeWidth;
+          g.fillTriangle(sx, py + size * 0.8, sx + spikeWidth, py + size * 0.8, sx + spikeWidth / 2, py + size * 0.2);
+        }
+        break;
+      }
+
+      case TILE_PIT:
+        // Dark hole with a rim
+        g.fillStyle(GameColors.pit);
+        g.fillRect(px, py, size, size);
+        g.lineStyle(2, GameColors.pitRim);
+        g.strokeRect(px + 1, py + 1, size - 2, size - 2);
+        break;
+
+      default:
+        if (tileRegistry.get(tile).passable) {
+          this.drawFloor(x, y, size);
+        } else {
+          // Wall
+          g.fillStyle(GameColors.wallColor);
+          g.fillRect(px, py, size, size);
+          g.lineStyle(1, GameColors.wallBorder);
+          g.strokeRect(px, py, size, size);
+        }
+    }
+  }
+
+  /**
+   * Floor (checkerboard pattern)
+   */
+  private drawFloor(x: number, y: number, size: number): void {
+    const color = (x + y) % 2 === 0 ? GameColors.floorDark : GameColors.floorLight;
+    this.graphics.fillStyle(color);
+    this.graphics.fillRect(x * size, y * size, size, size);
+  }
+}
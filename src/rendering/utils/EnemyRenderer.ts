@@ -13,10 +13,9 @@ export class EnemyRenderer implements EntityRenderer {
     entity: Entity,
     world: World,
     transform: TransformComponent,
-    sprite: SpriteComponent
+    sprite: SpriteComponent,
+    graphics: Phaser.GameObjects.Graphics
   ): void {
-    const graphics = sprite.graphics;
-
     // Draw shadow
     DrawingUtils.drawShadow(graphics, transform.x, transform.y, transform.width, transform.height);
 
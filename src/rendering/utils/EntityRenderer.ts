@@ -15,6 +15,7 @@ export interface EntityRenderer {
     entity: Entity,
     world: World,
     transform: TransformComponent,
-    sprite: SpriteComponent
+    sprite: SpriteComponent,
+    graphics: Phaser.GameObjects.Graphics
   ): void;
 }
@@ -14,10 +14,9 @@ export class PlayerRenderer implements EntityRenderer {
     entity: Entity,
     world: World,
     transform: TransformComponent,
-    sprite: SpriteComponent
+    _sprite: SpriteComponent,
+    graphics: Phaser.GameObjects.Graphics
   ): void {
-    const graphics = sprite.graphics;
-
     // Draw shadow
     DrawingUtils.drawShadow(graphics, transform.x, transform.y, transform.width, transform.height);
 
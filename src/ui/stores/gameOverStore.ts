@@ -0,0 +1,42 @@
+import { writable } from 'svelte/store';
+
+export interface GameOverState {
+  // Shown once the player dies; the run stays paused behind it
+  open: boolean;
+  depth: number;
+  level: number;
+  kills: number;
+  // False when the run wasn't recorded (hand-authored levels, loaded saves), so there is no replay to save
+  recorded: boolean;
+}
+
+// Implemented by GameScene
+export interface GameOverHost {
+  newRun(): void;
+}
+
+const initialState: GameOverState = {
+  open: false,
+  depth: 1,
+  level: 1,
+  kills: 0,
+  recorded: false
+};
+
+export const gameOverStore = writable<GameOverState>(initialState);
+
+let host: GameOverHost | null = null;
+
+export function attachGameOverHost(next: GameOverHost | null) {
+  host = next;
+  gameOverStore.set(initialState);
+}
+
+export function showGameOver(summary: Omit<GameOverState, 'open'>) {
+  gameOverStore.set({ ...summary, open: true });
+}
+
+// Start over in a fresh scene (same URL options)
+export function newRun() {
+  host?.newRun();
+}
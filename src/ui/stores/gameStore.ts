@@ -10,6 +10,9 @@ export interface GameState {
   defense: number;
   speed: number;
   kills: number;
+  depth: number;
+  // Run seed, shown so the run can be shared (?seed=)
+  seed: number;
 }
 
 const initialState: GameState = {
@@ -21,7 +24,9 @@ const initialState: GameState = {
   strength: 10,
   defense: 5,
   speed: 3,
-  kills: 0
+  kills: 0,
+  depth: 1,
+  seed: 0
 };
 
 export const gameStore = writable<GameState>(initialState);
@@ -46,3 +51,11 @@ export function updateStats(strength: number, defense: number, speed: number) {
 export function updateKills(kills: number) {
   gameStore.update(state => ({ ...state, kills }));
 }
+
+export function updateDepth(depth: number) {
+  gameStore.update(state => ({ ...state, depth }));
+}
+
+export function updateSeed(seed: number) {
+  gameStore.update(state => ({ ...state, seed }));
+}
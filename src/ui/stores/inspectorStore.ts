@@ -0,0 +1,72 @@
+import { writable, get } from 'svelte/store';
+import type { WorldInspector, EntityView, SystemTimingView, FieldValue } from '../../core/ecs/WorldInspector';
+
+export interface InspectorState {
+  open: boolean;
+  paused: boolean;
+  entities: EntityView[];
+  timings: SystemTimingView[];
+}
+
+const initialState: InspectorState = {
+  open: false,
+  paused: false,
+  entities: [],
+  timings: []
+};
+
+export const inspectorStore = writable<InspectorState>(initialState);
+
+// Inspector of the running game's world (set by GameScene)
+let inspector: WorldInspector | null = null;
+
+export function attachInspector(next: WorldInspector | null) {
+  inspector = next;
+  refreshInspector();
+}
+
+export function toggleInspector() {
+  inspectorStore.update(state => ({ ...state, open: !state.open }));
+  refreshInspector();
+}
+
+export function isInspectorOpen(): boolean {
+  return get(inspectorStore).open;
+}
+
+// Re-read entities and timings from the world (only while the overlay is open)
+export function refreshInspector() {
+  if (!inspector || !isInspectorOpen()) return;
+
+  const current = inspector;
+  inspectorStore.update(state => ({
+    ...state,
+    paused: current.isPaused(),
+    entities: current.inspect(),
+    timings: current.getSystemTimings()
+  }));
+}
+
+export function setPaused(paused: boolean) {
+  inspector?.setPaused(paused);
+  refreshInspector();
+}
+
+export function stepTick() {
+  inspector?.step();
+  refreshInspector();
+}
+
+// Returns an error message if the edit was rejected
+export function editField(entityId: number, componentType: string, field: string, value: FieldValue): string | null {
+  if (!inspector) return 'Game is not running';
+
+  try {
+    inspector.setField(entityId, componentType, field, value);
+  } catch (error) {
+    return (error as Error).message;
+  }
+
+  refreshInspector();
+  return null;
+}
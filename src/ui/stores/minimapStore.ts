@@ -0,0 +1,126 @@
+import { writable } from 'svelte/store';
+import type { GameSimulation } from '../../game/GameSimulation';
+import type { Dungeon } from '../../game/Dungeon';
+import type { Entity } from '../../core/ecs/Entity';
+
+export interface MinimapTile {
+  x: number;
+  y: number;
+  // Tile type name ('floor', 'wall', 'lava'...)
+  tile: string;
+  passable: boolean;
+  // In view right now (otherwise remembered)
+  visible: boolean;
+}
+
+// Positions are in tiles (fractional for entities)
+export interface MinimapState {
+  // Full-screen map view
+  open: boolean;
+  // Changes whenever a new floor is shown (the map starts over)
+  floor: number;
+  width: number;
+  height: number;
+  // Tiles whose look changed since the previous update (only these are redrawn)
+  changedTiles: MinimapTile[];
+  player: { x: number; y: number } | null;
+  // Once explored
+  stairs: { x: number; y: number } | null;
+  // Enemies the player can currently see
+  enemies: { x: number; y: number }[];
+}
+
+const initialState: MinimapState = {
+  open: false,
+  floor: 0,
+  width: 0,
+  height: 0,
+  changedTiles: [],
+  player: null,
+  stairs: null,
+  enemies: []
+};
+
+export const minimapStore = writable<MinimapState>(initialState);
+
+// Simulation the map is read from (set by GameScene)
+let sim: GameSimulation | null = null;
+
+// What was last sent, so only differences are passed on
+let shownDungeon: Dungeon | null = null;
+let shownVersion = -1;
+let shownVisible: number[] = [];
+
+export function attachMinimap(next: GameSimulation | null) {
+  sim = next;
+  shownDungeon = null;
+  refreshMinimap();
+}
+
+export function toggleMinimap() {
+  minimapStore.update(state => ({ ...state, open: !state.open }));
+}
+
+export function closeMinimap() {
+  minimapStore.update(state => ({ ...state, open: false }));
+}
+
+// Pass on newly seen or dimmed tiles and the current markers
+export function refreshMinimap() {
+  if (!sim) return;
+
+  const dungeon = sim.getDungeon();
+  const fieldOfView = sim.getFieldOfView();
+  const tileSize = dungeon.getTileSize();
+  const width = dungeon.getWidth();
+
+  const newFloor = dungeon !== shownDungeon;
+  if (newFloor) {
+    shownDungeon = dungeon;
+    shownVersion = -1;
+    shownVisible = [];
+  }
+
+  // Tiles that left the view are now remembered; tiles in view are visible
+  const changedTiles: MinimapTile[] = [];
+  if (fieldOfView.getVersion() !== shownVersion) {
+    const visible = fieldOfView.getVisibleTiles();
+
+    for (const index of new Set([...shownVisible, ...visible])) {
+      const x = index % width;
+      const y = Math.floor(index / width);
+      const type = dungeon.getTileType(x, y);
+      changedTiles.push({ x, y, tile: type.name, passable: type.passable, visible: fieldOfView.isVisible(x, y) });
+    }
+
+    shownVersion = fieldOfView.getVersion();
+    shownVisible = [...visible];
+  }
+
+  const world = sim.world;
+  const center = (entity: Entity) => {
+    const transform = world.getComponent(entity, 'Transform');
+    return transform
+      ? { x: (transform.x + transform.width / 2) / tileSize, y: (transform.y + transform.height / 2) / tileSize }
+      : null;
+  };
+
+  const player = center(sim.getPlayer());
+  const stairs = dungeon.getStairs();
+  const enemies = world
+    .queryEntities('Enemy', 'Transform')
+    .map(center)
+    .filter((position): position is { x: number; y: number } => position !== null)
+    .filter(position => fieldOfView.isVisible(Math.floor(position.x), Math.floor(position.y)));
+
+  minimapStore.update(state => ({
+    ...state,
+    floor: newFloor ? state.floor + 1 : state.floor,
+    width,
+    height: dungeon.getHeight(),
+    changedTiles,
+    player,
+    stairs: fieldOfView.isExplored(stairs.x, stairs.y) ? stairs : null,
+    enemies
+  }));
+}
@@ -0,0 +1,118 @@
+import { writable } from 'svelte/store';
+import type { ReplayPlayer } from '../../game/replay/ReplayPlayer';
+
+export interface ReplayState {
+  // True while watching a replay, false while playing (and recording)
+  active: boolean;
+  playing: boolean;
+  tick: number;
+  length: number;
+  speed: number;
+  desyncs: number;
+  error: string | null;
+}
+
+// Implemented by GameScene
+export interface ReplayHost {
+  // Current run (or the replay being watched) as a replay file, null if the run isn't recorded
+  getRecording(): string | null;
+  // Throws ReplayError if the file is invalid
+  startReplay(json: string): void;
+  stopReplay(): void;
+  getPlayer(): ReplayPlayer | null;
+}
+
+const initialState: ReplayState = {
+  active: false,
+  playing: false,
+  tick: 0,
+  length: 0,
+  speed: 1,
+  desyncs: 0,
+  error: null
+};
+
+export const replayStore = writable<ReplayState>(initialState);
+
+let host: ReplayHost | null = null;
+
+export function attachReplayHost(next: ReplayHost | null) {
+  host = next;
+  refreshReplay();
+}
+
+// Re-read playback position (called by GameScene while a replay runs)
+export function refreshReplay() {
+  const player = host?.getPlayer() ?? null;
+
+  replayStore.update(state => ({
+    ...state,
+    active: player !== null,
+    playing: player?.isPlaying() ?? false,
+    tick: player?.getTick() ?? 0,
+    length: player?.getLength() ?? 0,
+    speed: player?.getSpeed() ?? 1,
+    desyncs: player?.getDesyncs().length ?? 0
+  }));
+}
+
+function setError(error: string | null) {
+  replayStore.update(state => ({ ...state, error }));
+}
+
+// Download the current recording as a file
+export function saveReplay() {
+  if (!host) return;
+
+  const recording = host.getRecording();
+  if (recording === null) {
+    setError('Runs on hand-authored levels or loaded from a save are not recorded');
+    return;
+  }
+
+  const blob = new Blob([recording], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `dungeon-quest-${Date.now()}.replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function loadReplay(file: File) {
+  if (!host) return;
+
+  const json = await file.text();
+  try {
+    host.startReplay(json);
+    setError(null);
+  } catch (error) {
+    setError((error as Error).message);
+  }
+}
+
+export function togglePlayback() {
+  const player = host?.getPlayer();
+  if (!player) return;
+
+  if (player.isPlaying()) {
+    player.pause();
+  } else {
+    player.play();
+  }
+  refreshReplay();
+}
+
+export function seekReplay(tick: number) {
+  host?.getPlayer()?.seek(tick);
+  refreshReplay();
+}
+
+export function setReplaySpeed(speed: number) {
+  host?.getPlayer()?.setSpeed(speed);
+  refreshReplay();
+}
+
+export function exitReplay() {
+  host?.stopReplay();
+}
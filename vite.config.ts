@@ -22,9 +22,6 @@ export default defineConfig({
     outDir: 'dist'
   },
 
-  // Asset handling
-  assetsInclude: ['**/*.json'],
-
   // Type checking
   resolve: {
     alias: {